@@ -0,0 +1,145 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ensureStateDirectory, STATE_DIRECTORY } from './manifest.js';
+import { writeFileAtomic, type FileWriter } from './transaction.js';
+
+// Copies of files cpconfig replaced, grouped into one directory per sync run.
+
+export const BACKUP_DIRECTORY = 'backups';
+
+/**
+ * Directory name for a sync run, sortable and safe on every file system.
+ */
+export function createBackupTimestamp(date: Date = new Date()): string {
+  return date.toISOString().replace(/[:.]/g, '-');
+}
+
+/**
+ * Location, relative to the root directory, of a file's backup for the given sync run.
+ */
+export function resolveBackupPath(relativePath: string, timestamp: string): string {
+  return path.posix.join(STATE_DIRECTORY, BACKUP_DIRECTORY, timestamp, relativePath);
+}
+
+/**
+ * Saves the previous contents of a file below .cpconfig/backups/<timestamp>/ and returns the
+ * backup location relative to the root directory.
+ */
+export async function backupFile(
+  rootDir: string,
+  relativePath: string,
+  contents: string | Buffer,
+  options: { timestamp: string; encoding: BufferEncoding; writer: FileWriter },
+): Promise<string> {
+  const backupPath = resolveBackupPath(relativePath, options.timestamp);
+
+  await ensureStateDirectory(rootDir, options);
+  await options.writer.writeFile(path.join(rootDir, backupPath), contents, {
+    encoding: options.encoding,
+  });
+
+  return backupPath;
+}
+
+export type BackupRun = {
+  /**
+   * Name of the run's directory, derived from the time of the sync.
+   */
+  timestamp: string;
+  /**
+   * Backed up paths relative to the root directory.
+   */
+  files: string[];
+};
+
+/**
+ * Lists backed up sync runs, newest first.
+ */
+export async function listBackups(rootDir: string): Promise<BackupRun[]> {
+  const backupRoot = path.join(rootDir, STATE_DIRECTORY, BACKUP_DIRECTORY);
+  let timestamps: string[];
+
+  try {
+    const entries = await fs.readdir(backupRoot, { withFileTypes: true });
+    timestamps = entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+  } catch (error) {
+    if (error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+
+    throw error;
+  }
+
+  const runs = await Promise.all(
+    timestamps.map(async (timestamp) => ({
+      timestamp,
+      files: (await listFiles(path.join(backupRoot, timestamp))).sort(),
+    })),
+  );
+
+  return runs.sort((left, right) => right.timestamp.localeCompare(left.timestamp));
+}
+
+/**
+ * Deletes all but the newest `retain` runs and returns the timestamps that were removed.
+ */
+export async function pruneBackups(rootDir: string, retain: number): Promise<string[]> {
+  const expired = (await listBackups(rootDir)).slice(retain).map((run) => run.timestamp);
+
+  for (const timestamp of expired) {
+    await fs.rm(path.join(rootDir, STATE_DIRECTORY, BACKUP_DIRECTORY, timestamp), {
+      recursive: true,
+      force: true,
+    });
+  }
+
+  return expired;
+}
+
+/**
+ * Copies the files of a backup run, or a single file from it, back into the root directory and
+ * returns the restored paths.
+ */
+export async function restoreBackup(
+  rootDir: string,
+  timestamp: string,
+  relativePath?: string,
+): Promise<string[]> {
+  const run = (await listBackups(rootDir)).find((candidate) => candidate.timestamp === timestamp);
+
+  if (!run) {
+    throw new Error(`No backup named "${timestamp}" was found`);
+  }
+
+  const selected =
+    relativePath === undefined
+      ? run.files
+      : run.files.filter((file) => file === relativePath.split(path.sep).join('/'));
+
+  if (selected.length === 0) {
+    throw new Error(`Backup "${timestamp}" does not contain "${relativePath}"`);
+  }
+
+  for (const file of selected) {
+    const contents = await fs.readFile(path.join(rootDir, resolveBackupPath(file, timestamp)));
+    const target = path.join(rootDir, file);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await writeFileAtomic(target, contents, { encoding: 'utf8' });
+  }
+
+  return selected;
+}
+
+async function listFiles(directory: string, prefix = ''): Promise<string[]> {
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  const nested = await Promise.all(
+    entries.map((entry) => {
+      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      return entry.isDirectory()
+        ? listFiles(path.join(directory, entry.name), relativePath)
+        : Promise.resolve([relativePath]);
+    }),
+  );
+
+  return nested.flat();
+}
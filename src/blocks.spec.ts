@@ -0,0 +1,42 @@
+import { describe, expect, test } from 'vitest';
+import { formatBlockMarkers, removeBlock, upsertBlock } from './blocks.js';
+
+const markers = formatBlockMarkers('#');
+
+describe('upsertBlock', () => {
+  test('inserts the block after the existing lines', () => {
+    expect(upsertBlock('a=1\nb=2\n', markers, 'c=3')).toEqual({
+      ok: true,
+      content: `a=1\nb=2\n\n${markers.begin}\nc=3\n${markers.end}\n`,
+      change: 'inserted',
+    });
+  });
+
+  test('keeps CRLF line endings', () => {
+    const inserted = upsertBlock('a=1\r\nb=2\r\n', markers, 'c=3');
+    expect(inserted).toEqual({
+      ok: true,
+      content: `a=1\r\nb=2\r\n\r\n${markers.begin}\r\nc=3\r\n${markers.end}\r\n`,
+      change: 'inserted',
+    });
+
+    const content = inserted.ok ? inserted.content : '';
+    expect(upsertBlock(content, markers, 'c=3')).toMatchObject({ content, change: 'unchanged' });
+    expect(upsertBlock(content, markers, 'c=4')).toMatchObject({
+      content: `a=1\r\nb=2\r\n\r\n${markers.begin}\r\nc=4\r\n${markers.end}\r\n`,
+      change: 'updated',
+    });
+  });
+});
+
+describe('removeBlock', () => {
+  test('keeps CRLF line endings', () => {
+    expect(
+      removeBlock(`a=1\r\nb=2\r\n\r\n${markers.begin}\r\nc=3\r\n${markers.end}\r\n`, markers),
+    ).toBe('a=1\r\nb=2\r\n');
+  });
+
+  test('returns null when the block is missing', () => {
+    expect(removeBlock('a=1\n', markers)).toBeNull();
+  });
+});
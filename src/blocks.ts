@@ -0,0 +1,149 @@
+// Helpers for delimited regions that cpconfig owns inside files it does not otherwise manage.
+
+export const DEFAULT_BLOCK_BEGIN = 'BEGIN cpconfig managed block';
+export const DEFAULT_BLOCK_END = 'END cpconfig managed block';
+
+/**
+ * Comment syntax used for block markers: a line prefix such as '#', or an opening and closing
+ * pair such as ['<!--', '-->'].
+ */
+export type BlockCommentSyntax = string | readonly [string, string];
+
+export type BlockMarkers = {
+  begin: string;
+  end: string;
+};
+
+export type BlockChange = 'inserted' | 'updated' | 'removed' | 'unchanged';
+
+export type BlockUpsert =
+  | { ok: true; content: string; change: Exclude<BlockChange, 'removed'> }
+  | { ok: false; reason: string };
+
+export function formatBlockMarkers(
+  comment: BlockCommentSyntax = '#',
+  markers: Partial<BlockMarkers> = {},
+): BlockMarkers {
+  const wrap = (text: string) =>
+    typeof comment === 'string' ? `${comment} ${text}` : `${comment[0]} ${text} ${comment[1]}`;
+
+  return {
+    begin: wrap(markers.begin ?? DEFAULT_BLOCK_BEGIN),
+    end: wrap(markers.end ?? DEFAULT_BLOCK_END),
+  };
+}
+
+/**
+ * Inserts or replaces the delimited block, leaving every line outside of it untouched. Lines are
+ * joined with the line ending the file already uses.
+ */
+export function upsertBlock(
+  content: string | null,
+  markers: BlockMarkers,
+  body: string,
+): BlockUpsert {
+  const lines = splitLines(content ?? '');
+  const eol = detectLineEnding(content ?? '');
+  const blockLines = [markers.begin, ...splitLines(body), markers.end];
+  const located = locateBlock(lines, markers);
+
+  if (located === 'unterminated') {
+    return {
+      ok: false,
+      reason: `found "${markers.begin}" without a matching "${markers.end}"`,
+    };
+  }
+
+  if (located) {
+    const currentBlock = lines.slice(located.start, located.end + 1);
+
+    if (
+      currentBlock.length === blockLines.length &&
+      currentBlock.every((line, index) => line === blockLines[index])
+    ) {
+      return { ok: true, content: content ?? '', change: 'unchanged' };
+    }
+
+    const next = [...lines.slice(0, located.start), ...blockLines, ...lines.slice(located.end + 1)];
+    return { ok: true, content: `${next.join(eol)}${eol}`, change: 'updated' };
+  }
+
+  const base = trimTrailingEmptyLines(lines);
+
+  if (base.length > 0) {
+    base.push('');
+  }
+
+  return { ok: true, content: `${[...base, ...blockLines].join(eol)}${eol}`, change: 'inserted' };
+}
+
+/**
+ * Removes the delimited block along with the blank separator line inserted before it.
+ * Returns null when the block is not present.
+ */
+export function removeBlock(content: string, markers: BlockMarkers): string | null {
+  const lines = splitLines(content);
+  const located = locateBlock(lines, markers);
+
+  if (!located || located === 'unterminated') {
+    return null;
+  }
+
+  const before = lines.slice(0, located.start);
+  const after = lines.slice(located.end + 1);
+
+  if (before.length > 0 && before[before.length - 1].trim() === '' && after.length === 0) {
+    before.pop();
+  }
+
+  const next = [...before, ...after];
+  const eol = detectLineEnding(content);
+  return next.length > 0 ? `${next.join(eol)}${eol}` : '';
+}
+
+function detectLineEnding(content: string): string {
+  return content.includes('\r\n') ? '\r\n' : '\n';
+}
+
+function locateBlock(
+  lines: string[],
+  markers: BlockMarkers,
+): { start: number; end: number } | 'unterminated' | null {
+  const start = lines.findIndex((line) => line.trim() === markers.begin);
+
+  if (start === -1) {
+    return null;
+  }
+
+  const offset = lines.slice(start + 1).findIndex((line) => line.trim() === markers.end);
+
+  if (offset === -1) {
+    return 'unterminated';
+  }
+
+  return { start, end: start + 1 + offset };
+}
+
+export function splitLines(content: string): string[] {
+  if (!content) {
+    return [];
+  }
+
+  const lines = content.split(/\r?\n/);
+
+  if (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  return lines;
+}
+
+export function trimTrailingEmptyLines(lines: string[]): string[] {
+  const trimmed = [...lines];
+
+  while (trimmed.length > 0 && trimmed[trimmed.length - 1].trim() === '') {
+    trimmed.pop();
+  }
+
+  return trimmed;
+}
@@ -1,15 +1,47 @@
 import { promises as fs } from 'node:fs';
+import * as nodeModule from 'node:module';
 import { createRequire } from 'node:module';
 import * as path from 'node:path';
 import { fileURLToPath, pathToFileURL } from 'node:url';
+import { colorizeDiff } from './diff.js';
+import { findGitRoot, listTrackedFiles, readGitVersion } from './git.js';
+import { collectLocalImports, createPathWatcher } from './watch.js';
+import { findWorkspacePackages, findWorkspaceRoot, type WorkspacePackage } from './workspaces.js';
 import {
+  checkConfigs,
+  cleanConfigs,
+  describeConfigs,
+  initProject,
+  inspectIgnoreFile,
+  listBackups,
+  LOCAL_MODIFICATION_POLICIES,
+  restoreBackup,
   syncConfigs,
+  SyncRollbackError,
+  TRACKED_FILE_POLICIES,
+  type CheckResult,
+  type ConfigDescription,
+  type ConfigFlavour,
+  type IgnoreFileInspection,
   type ConfigMap,
   type ConfigEntry,
+  type LocalModificationPolicy,
   type SyncOptions,
   type SyncResult,
+  type TrackedFilePolicy,
 } from './index.js';
 
+/**
+ * Process exit codes returned by runCli. Drift is only reported by --check, conflicts by syncs that
+ * left merge conflicts behind.
+ */
+export const EXIT_CODES = {
+  success: 0,
+  error: 1,
+  drift: 2,
+  conflict: 3,
+} as const;
+
 const TYPE_SCRIPT_EXTENSIONS = new Set(['.ts', '.tsx', '.cts', '.mts']);
 
 type TypeScriptSupportMode = 'require' | 'import';
@@ -25,87 +57,1022 @@ type CliRunOptions = {
   cwd?: string;
   stdout?: Pick<NodeJS.WritableStream, 'write'>;
   stderr?: Pick<NodeJS.WritableStream, 'write'>;
+  /**
+   * Stops --watch. Defaults to a signal that aborts on SIGINT.
+   */
+  signal?: AbortSignal;
 };
 
+const CLI_COMMANDS = [
+  'sync',
+  'check',
+  'list',
+  'diff',
+  'clean',
+  'explain',
+  'restore',
+  'init',
+  'doctor',
+] as const;
+
+const CONFIG_FLAVOURS: readonly ConfigFlavour[] = ['esm', 'cjs', 'typescript'];
+
+type CliCommand = (typeof CLI_COMMANDS)[number];
+
+type CliIo = Required<Omit<CliRunOptions, 'signal'>>;
+
+const WATCH_DEBOUNCE_MS = 100;
+
+const ENTRY_INPUTS = ['contents', 'data', 'template', 'copy', 'symlink', 'absent'];
+
 type CliFlags = {
+  command: CliCommand;
+  positionals: string[];
   dryRun: boolean;
+  diff: boolean;
   json: boolean;
+  transactional: boolean;
+  backups: boolean;
+  workspaces: boolean;
+  watch: boolean;
+  force: boolean;
+  flavour?: ConfigFlavour;
+  localModifications?: LocalModificationPolicy;
+  trackedFiles?: TrackedFilePolicy;
   rootDir?: string;
   gitignorePath?: string;
+  ignoreFiles: string[];
   configPath?: string;
+  profile?: string;
   helpRequested: boolean;
 };
 
 type LoadedConfig = {
   files: ConfigMap;
   options: SyncOptions;
+  /**
+   * Every module the configuration was loaded from, presets included.
+   */
+  modules: string[];
+  /**
+   * Module that declared each file, which differs from source for files inherited from presets.
+   */
+  origins: Record<string, string>;
   packageDir: string;
+  /**
+   * package.json the config was loaded through, or an empty object for --config files.
+   */
+  pkg: Record<string, unknown>;
   source: string;
 };
 
 export async function runCli(
   args: string[] = process.argv.slice(2),
-  { cwd = process.cwd(), stdout = process.stdout, stderr = process.stderr }: CliRunOptions = {},
+  {
+    cwd = process.cwd(),
+    stdout = process.stdout,
+    stderr = process.stderr,
+    signal,
+  }: CliRunOptions = {},
 ): Promise<number> {
   const cliArgs = [...args];
   const flags = parseFlags(args);
+  const io: CliIo = { cwd, stdout, stderr };
 
   if (flags.helpRequested) {
-    stdout.write(buildHelpMessage());
-    return 0;
+    stdout.write(buildHelpMessage(flags.command));
+    return EXIT_CODES.success;
   }
 
   try {
+    if (flags.command === 'restore') {
+      return await runRestore(flags, io);
+    }
+
+    if (flags.command === 'init') {
+      return await runInit(flags, io);
+    }
+
+    if (flags.command === 'doctor') {
+      return await runDoctor(flags, cliArgs, io);
+    }
+
+    if (flags.workspaces) {
+      if (flags.watch) {
+        throw new Error('--watch cannot be combined with --workspaces');
+      }
+
+      return await runWorkspaces(flags, cliArgs, io);
+    }
+
+    if (flags.watch) {
+      return await runWatch(flags, cliArgs, io, signal);
+    }
+
     const loaded = await loadConfig({ cwd, flags, cliArgs });
-    const options: SyncOptions = {
-      ...loaded.options,
-    };
+    return await runConfigCommand(loaded, resolveCliOptions(flags, loaded), flags, io);
+  } catch (error) {
+    writeError(error, stderr);
+    return EXIT_CODES.error;
+  }
+}
 
-    if (flags.rootDir) {
-      options.rootDir = path.resolve(loaded.packageDir, flags.rootDir);
-    } else if (!options.rootDir) {
-      options.rootDir = loaded.packageDir;
+function runConfigCommand(
+  loaded: LoadedConfig,
+  options: SyncOptions,
+  flags: CliFlags,
+  io: CliIo,
+): Promise<number> {
+  switch (flags.command) {
+    case 'check':
+      return runCheck(loaded, options, flags, io);
+    case 'list':
+      return runList(loaded, options, flags, io);
+    case 'diff':
+      return runDiff(loaded, options, flags, io);
+    case 'clean':
+      return runClean(loaded, options, flags, io);
+    case 'explain':
+      return runExplain(loaded, options, flags, io);
+    default:
+      return runSync(loaded, options, flags, io);
+  }
+}
+
+function writeError(error: unknown, stderr: CliIo['stderr'], prefix = 'cpconfig') {
+  const message = error instanceof Error ? error.message : String(error);
+  stderr.write(`${prefix}: ${message}\n`);
+
+  if (error instanceof SyncRollbackError) {
+    for (const restored of error.restored) {
+      stderr.write(`${prefix}: restored ${restored}\n`);
+    }
+  }
+}
+
+/**
+ * Syncs, then re-syncs whenever the config module, a local module it imports, or a generated file
+ * changes. Only files that changed are printed after each run.
+ */
+async function runWatch(
+  flags: CliFlags,
+  cliArgs: readonly string[],
+  io: CliIo,
+  signal?: AbortSignal,
+): Promise<number> {
+  const { cwd, stdout, stderr } = io;
+
+  if (flags.command !== 'sync') {
+    throw new Error(`--watch cannot be used with the ${flags.command} command`);
+  }
+
+  expectPositionals(flags, 0);
+
+  const interrupt = new AbortController();
+  const onSigint = () => interrupt.abort();
+  if (!signal) {
+    process.once('SIGINT', onSigint);
+  }
+
+  const watcher = createPathWatcher({ debounceMs: WATCH_DEBOUNCE_MS });
+  let loaded: LoadedConfig | null = null;
+  let loads = 0;
+  let configPaths: string[] = [];
+  let syncPaths: string[] = [];
+  let changed: string[] | null = [];
+
+  try {
+    while (changed) {
+      const reloadConfig = !loaded || changed.some((filePath) => configPaths.includes(filePath));
+
+      try {
+        if (reloadConfig) {
+          loads += 1;
+          loaded = await loadConfig({ cwd, flags, cliArgs, reload: loads });
+          configPaths = await collectConfigPaths(loaded);
+        }
+
+        const current = loaded as LoadedConfig;
+        const options = resolveCliOptions(flags, current);
+
+        // Templates are read during the sync, so they are watched before it starts.
+        const templatePaths = listTemplatePaths(current.files, options);
+        watcher.watch([...configPaths, ...templatePaths, ...syncPaths]);
+
+        const result = await syncConfigs(current.files, options);
+        syncPaths = [
+          ...templatePaths,
+          ...result.files
+            .filter((file) => file.managed && file.action !== 'deleted')
+            .map((file) => file.absolutePath),
+          ...result.ignoreFiles
+            .filter((ignoreFile) => !ignoreFile.skipped)
+            .map((ignoreFile) => ignoreFile.path),
+        ];
+        watcher.watch([...configPaths, ...syncPaths]);
+
+        writeWarnings(result, stderr);
+        writeWatchResult(result, current, flags, stdout);
+      } catch (error) {
+        writeError(error, stderr);
+
+        if (configPaths.length === 0) {
+          // Nothing loaded yet, so the best hint of what to watch is where the config is declared.
+          configPaths = flags.configPath
+            ? [path.resolve(cwd, flags.configPath)]
+            : [(await findNearestPackageJson(cwd)).packageJsonPath];
+          watcher.watch(configPaths);
+        }
+      }
+
+      if (loads === 1 && reloadConfig) {
+        stdout.write(
+          `cpconfig watch: watching ${configPaths.length + syncPaths.length} file(s) for changes\n`,
+        );
+      }
+
+      changed = await watcher.next(signal ?? interrupt.signal);
     }
+  } finally {
+    watcher.close();
+    process.removeListener('SIGINT', onSigint);
+  }
+
+  return EXIT_CODES.success;
+}
+
+async function collectConfigPaths(loaded: LoadedConfig): Promise<string[]> {
+  const paths = new Set<string>([path.join(loaded.packageDir, 'package.json')]);
 
-    if (flags.gitignorePath) {
-      options.gitignorePath = path.resolve(
-        options.rootDir ?? loaded.packageDir,
-        flags.gitignorePath,
+  for (const modulePath of loaded.modules) {
+    for (const localPath of await collectLocalImports(modulePath)) {
+      paths.add(localPath);
+    }
+  }
+
+  return [...paths];
+}
+
+function listTemplatePaths(files: ConfigMap, options: SyncOptions): string[] {
+  return Object.values(files).flatMap((entry) =>
+    typeof entry.template === 'string'
+      ? [path.resolve(options.rootDir ?? process.cwd(), entry.template)]
+      : [],
+  );
+}
+
+function writeWatchResult(
+  result: SyncResult,
+  loaded: LoadedConfig,
+  flags: CliFlags,
+  stdout: CliIo['stdout'],
+) {
+  const changes: SyncResult = {
+    ...result,
+    files: result.files.filter(
+      (file) => file.action !== 'unchanged' && file.action !== 'skipped-condition',
+    ),
+    ignoreFiles: result.ignoreFiles.filter((ignoreFile) => ignoreFile.updated),
+  };
+
+  if (changes.files.length === 0 && changes.ignoreFiles.length === 0) {
+    return;
+  }
+
+  stdout.write(
+    flags.json
+      ? `${JSON.stringify(changes)}\n`
+      : formatResult(changes, 'watch', loaded, supportsColor(stdout)),
+  );
+}
+
+const WORKSPACE_COMMANDS: readonly CliCommand[] = ['sync', 'check', 'list', 'diff', 'clean'];
+
+type WorkspaceReport = {
+  dir: string;
+  name: string | null;
+  status: 'ok' | 'skipped' | 'failed' | 'drift' | 'conflict';
+  exitCode?: number;
+  output?: unknown;
+  error?: string;
+};
+
+/**
+ * Runs the command in the workspace root and every workspace package that sets config.cpconfig,
+ * each with its own package directory as root. A failing package does not stop the others.
+ */
+async function runWorkspaces(
+  flags: CliFlags,
+  cliArgs: readonly string[],
+  { cwd, stdout, stderr }: CliIo,
+): Promise<number> {
+  if (!WORKSPACE_COMMANDS.includes(flags.command)) {
+    throw new Error(`--workspaces cannot be used with the ${flags.command} command`);
+  }
+
+  if (flags.configPath || flags.rootDir) {
+    throw new Error('--workspaces cannot be combined with --config or --root');
+  }
+
+  const workspaceRoot = await findWorkspaceRoot(cwd);
+  const rootPackage = (await readJsonFile(path.join(workspaceRoot, 'package.json'))) as {
+    name?: unknown;
+    config?: { cpconfig?: unknown };
+  };
+  const targets: WorkspacePackage[] = [
+    {
+      name: typeof rootPackage.name === 'string' ? rootPackage.name : null,
+      dir: workspaceRoot,
+      relativeDir: '.',
+      ...(typeof rootPackage.config?.cpconfig === 'string'
+        ? { cpconfig: rootPackage.config.cpconfig }
+        : {}),
+    },
+    ...(await findWorkspacePackages(workspaceRoot)),
+  ];
+  const reports: WorkspaceReport[] = [];
+
+  for (const target of targets) {
+    const report: WorkspaceReport = { dir: target.relativeDir, name: target.name, status: 'ok' };
+    reports.push(report);
+
+    if (!target.cpconfig) {
+      report.status = 'skipped';
+      continue;
+    }
+
+    // JSON output is collected per package and printed as one document at the end.
+    const captured = createOutputBuffer();
+    const packageIo: CliIo = {
+      cwd: target.dir,
+      stdout: flags.json ? captured : stdout,
+      stderr,
+    };
+
+    try {
+      const loaded = await loadConfig({ cwd: target.dir, flags, cliArgs });
+      report.exitCode = await runConfigCommand(
+        loaded,
+        resolveCliOptions(flags, loaded),
+        flags,
+        packageIo,
       );
+    } catch (error) {
+      writeError(error, stderr, `cpconfig: ${target.relativeDir}`);
+      report.exitCode = EXIT_CODES.error;
+      report.error = error instanceof Error ? error.message : String(error);
     }
 
-    if (flags.dryRun) {
-      options.dryRun = true;
+    report.status = WORKSPACE_STATUS[report.exitCode];
+    if (flags.json && captured.text.trim() !== '') {
+      report.output = JSON.parse(captured.text);
     }
+  }
 
-    const result = await syncConfigs(loaded.files, options);
+  const exitCode = combineExitCodes(reports.map((report) => report.exitCode ?? 0));
 
-    for (const file of result.files) {
-      if (file.warning) {
-        stderr.write(`cpconfig: warning: ${file.warning}\n`);
-      }
+  if (flags.json) {
+    stdout.write(
+      `${JSON.stringify({ root: workspaceRoot, exitCode, packages: reports }, null, 2)}\n`,
+    );
+  } else if (!process.env.CI || exitCode !== EXIT_CODES.success) {
+    const lines = [`cpconfig workspaces (${workspaceRoot})`];
+    for (const report of reports) {
+      const label = report.name ? `${report.dir} (${report.name})` : report.dir;
+      const note = report.status === 'skipped' ? ' - no config.cpconfig' : '';
+      lines.push(`  ${report.status.padEnd(9, ' ')} ${label}${note}`);
+    }
+    stdout.write(`${lines.join('\n')}\n`);
+  }
+
+  return exitCode;
+}
+
+const WORKSPACE_STATUS: Record<number, WorkspaceReport['status']> = {
+  [EXIT_CODES.success]: 'ok',
+  [EXIT_CODES.error]: 'failed',
+  [EXIT_CODES.drift]: 'drift',
+  [EXIT_CODES.conflict]: 'conflict',
+};
+
+// Errors outrank conflicts, which outrank drift.
+function combineExitCodes(codes: number[]): number {
+  const precedence: number[] = [
+    EXIT_CODES.error,
+    EXIT_CODES.conflict,
+    EXIT_CODES.drift,
+    EXIT_CODES.success,
+  ];
+  return precedence.find((code) => codes.includes(code)) ?? EXIT_CODES.success;
+}
+
+function createOutputBuffer() {
+  const buffer = {
+    text: '',
+    write(chunk: string | Uint8Array) {
+      buffer.text += typeof chunk === 'string' ? chunk : Buffer.from(chunk).toString('utf8');
+      return true;
+    },
+  };
+  return buffer;
+}
+
+function resolveCliOptions(flags: CliFlags, loaded: LoadedConfig): SyncOptions {
+  const options: SyncOptions = {
+    ...loaded.options,
+  };
+
+  if (flags.rootDir) {
+    options.rootDir = path.resolve(loaded.packageDir, flags.rootDir);
+  } else if (!options.rootDir) {
+    options.rootDir = loaded.packageDir;
+  }
+
+  if (flags.gitignorePath) {
+    options.gitignorePath = path.resolve(options.rootDir ?? loaded.packageDir, flags.gitignorePath);
+  }
+
+  if (flags.ignoreFiles.length > 0) {
+    options.ignoreFiles = flags.ignoreFiles.map((target) =>
+      path.resolve(options.rootDir ?? loaded.packageDir, target),
+    );
+  }
+
+  if (flags.dryRun) {
+    options.dryRun = true;
+  }
+
+  if (flags.diff) {
+    options.diff = true;
+  }
+
+  if (flags.transactional) {
+    options.transactional = true;
+  }
+
+  if (flags.backups && !options.backups) {
+    options.backups = true;
+  }
+
+  if (flags.localModifications) {
+    options.localModifications = flags.localModifications;
+  }
+
+  if (flags.trackedFiles) {
+    options.trackedFiles = flags.trackedFiles;
+  }
+
+  if (flags.profile) {
+    options.profile = flags.profile;
+  }
+
+  if (!options.packageJson) {
+    options.packageJson = loaded.pkg;
+  }
+
+  return options;
+}
+
+async function runSync(
+  loaded: LoadedConfig,
+  options: SyncOptions,
+  flags: CliFlags,
+  { stdout, stderr }: CliIo,
+): Promise<number> {
+  expectPositionals(flags, 0);
+  const result = await syncConfigs(loaded.files, options);
+  const conflicted = result.files.filter((file) => file.action === 'conflict');
+
+  writeWarnings(result, stderr);
+
+  for (const file of conflicted) {
+    stderr.write(
+      file.conflicts
+        ? `cpconfig: conflict: ${file.path} has ${file.conflicts} conflicting region(s)\n`
+        : `cpconfig: conflict: ${file.path} still contains conflict markers\n`,
+    );
+  }
+
+  // JSON was asked for explicitly; only the human-readable summary is kept quiet on CI.
+  if (flags.json) {
+    stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+  } else if (!process.env.CI) {
+    const label = flags.dryRun ? 'dry run' : 'apply';
+    stdout.write(formatResult(result, label, loaded, supportsColor(stdout)));
+  }
+
+  return conflicted.length > 0 ? EXIT_CODES.conflict : EXIT_CODES.success;
+}
+
+async function runCheck(
+  loaded: LoadedConfig,
+  options: SyncOptions,
+  flags: CliFlags,
+  { stdout, stderr }: CliIo,
+): Promise<number> {
+  expectPositionals(flags, 0);
+  const check = await checkConfigs(loaded.files, options);
+
+  if (flags.json) {
+    stdout.write(`${JSON.stringify(check, null, 2)}\n`);
+  } else if (!check.ok) {
+    stderr.write(formatCheckFailure(check, supportsColor(stderr)));
+  } else if (!process.env.CI) {
+    stdout.write(`cpconfig check: up to date (${loaded.source})\n`);
+  }
+
+  return check.ok ? EXIT_CODES.success : EXIT_CODES.drift;
+}
+
+async function runList(
+  loaded: LoadedConfig,
+  options: SyncOptions,
+  flags: CliFlags,
+  { stdout }: CliIo,
+): Promise<number> {
+  expectPositionals(flags, 0);
+  const [descriptions, check] = await Promise.all([
+    describeConfigs(loaded.files, options),
+    checkConfigs(loaded.files, { ...options, diff: false }),
+  ]);
+  const statuses = new Map(check.result.files.map((file) => [file.path, file]));
+
+  const entries = descriptions.map((description) => {
+    const status = statuses.get(description.path);
+    return {
+      ...description,
+      source: loaded.origins[description.declaredPath] ?? loaded.source,
+      managed: status?.managed ?? true,
+      action: status?.action ?? 'unchanged',
+      ...(status?.warning ? { warning: status.warning } : {}),
+    };
+  });
+
+  if (flags.json) {
+    stdout.write(`${JSON.stringify(entries, null, 2)}\n`);
+    return EXIT_CODES.success;
+  }
+
+  const lines = [`cpconfig list (${loaded.source})`];
+
+  for (const entry of entries) {
+    const details: string[] = [];
+
+    if (entry.strategy !== 'file') {
+      details.push(entry.strategy);
+    }
+    if (entry.gitignored) {
+      details.push('gitignored');
     }
+    if (entry.sentinel) {
+      details.push(`sentinel ${JSON.stringify(entry.sentinel)}`);
+    }
+    if (entry.action !== 'unchanged') {
+      details.push(`pending ${entry.action}`);
+    }
+    if (entry.source !== loaded.source) {
+      details.push(`from ${path.relative(loaded.packageDir, entry.source)}`);
+    }
+
+    const status = (entry.managed ? 'managed' : 'unmanaged').padEnd(9, ' ');
+    lines.push(`${status} ${entry.path}${details.length > 0 ? ` (${details.join(', ')})` : ''}`);
+  }
+
+  stdout.write(`${lines.join('\n')}\n`);
+  return EXIT_CODES.success;
+}
+
+async function runDiff(
+  loaded: LoadedConfig,
+  options: SyncOptions,
+  flags: CliFlags,
+  { stdout, stderr }: CliIo,
+): Promise<number> {
+  expectPositionals(flags, 0);
+  const result = await syncConfigs(loaded.files, { ...options, dryRun: true, diff: true });
+  const changes = [
+    ...result.files.map((file) => ({ path: file.path, action: file.action, diff: file.diff })),
+    ...result.ignoreFiles.map((ignoreFile) => ({
+      path: path.relative(result.rootDir, ignoreFile.path).split(path.sep).join('/'),
+      action: 'gitignore' as const,
+      diff: ignoreFile.diff,
+    })),
+  ].filter((change) => change.diff);
+
+  writeWarnings(result, stderr);
+
+  if (flags.json) {
+    stdout.write(`${JSON.stringify(changes, null, 2)}\n`);
+  } else if (changes.length === 0) {
+    stdout.write(`cpconfig diff: no changes (${loaded.source})\n`);
+  } else {
+    const color = supportsColor(stdout);
+    stdout.write(`${changes.map((change) => formatDiff(change.diff ?? '', color)).join('\n')}\n`);
+  }
+
+  return EXIT_CODES.success;
+}
+
+async function runClean(
+  loaded: LoadedConfig,
+  options: SyncOptions,
+  flags: CliFlags,
+  { stdout, stderr }: CliIo,
+): Promise<number> {
+  expectPositionals(flags, 0);
+  const result = await cleanConfigs(loaded.files, options);
+
+  writeWarnings(result, stderr);
+
+  if (flags.json) {
+    stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+  } else {
+    const label = flags.dryRun ? 'clean (dry run)' : 'clean';
+    stdout.write(formatResult(result, label, loaded, supportsColor(stdout)));
+  }
+
+  return EXIT_CODES.success;
+}
+
+async function runExplain(
+  loaded: LoadedConfig,
+  options: SyncOptions,
+  flags: CliFlags,
+  { stdout }: CliIo,
+): Promise<number> {
+  expectPositionals(flags, 1);
+  const [requested] = flags.positionals;
+  const rootDir = path.resolve(options.rootDir ?? loaded.packageDir);
+  const relativePath = path
+    .relative(rootDir, path.resolve(rootDir, requested))
+    .split(path.sep)
+    .join('/');
+  const descriptions = await describeConfigs(loaded.files, options);
+  const index = descriptions.findIndex((candidate) => candidate.path === relativePath);
+
+  if (index === -1) {
+    throw new Error(`No entry in ${loaded.source} declares "${relativePath}"`);
+  }
+
+  const explanation = {
+    ...descriptions[index],
+    source: loaded.origins[descriptions[index].declaredPath] ?? loaded.source,
+  };
+
+  if (flags.json) {
+    stdout.write(`${JSON.stringify(explanation, null, 2)}\n`);
+    return EXIT_CODES.success;
+  }
 
-    if (!process.env.CI) {
-      if (flags.json) {
-        stdout.write(`${JSON.stringify(result, null, 2)}\n`);
-      } else {
-        stdout.write(formatResult(result, flags, loaded));
+  const lines = [
+    explanation.path,
+    `  declared in: ${explanation.source}`,
+    `  strategy:    ${explanation.strategy}`,
+    `  input:       ${formatExplainedInput(explanation)}`,
+    `  gitignored:  ${explanation.gitignored ? `yes (${explanation.ignoreFiles.join(', ')})` : 'no'}`,
+  ];
+
+  if (explanation.sentinel) {
+    lines.push(`  sentinel:    ${JSON.stringify(explanation.sentinel)}`);
+  }
+  if (explanation.mode !== undefined) {
+    lines.push(`  mode:        0o${explanation.mode.toString(8)}`);
+  }
+  if (explanation.markers) {
+    lines.push(`  markers:     ${explanation.markers.begin} / ${explanation.markers.end}`);
+  }
+  if (explanation.arrays) {
+    lines.push(`  arrays:      ${explanation.arrays}`);
+  }
+  if (explanation.conflicts) {
+    lines.push(`  conflicts:   ${explanation.conflicts}`);
+  }
+
+  stdout.write(`${lines.join('\n')}\n`);
+  return EXIT_CODES.success;
+}
+
+function formatExplainedInput(description: ConfigDescription): string {
+  if (description.format) {
+    return `data (${description.format})`;
+  }
+
+  if (description.copy) {
+    return `copy (${description.copy})`;
+  }
+
+  if (description.symlink) {
+    return `symlink (${description.symlink})`;
+  }
+
+  return description.template ? `template (${description.template})` : description.input;
+}
+
+async function runRestore(flags: CliFlags, { cwd, stdout }: CliIo): Promise<number> {
+  const rootDir = flags.rootDir
+    ? path.resolve(cwd, flags.rootDir)
+    : (await findNearestPackageJson(cwd)).packageDir;
+  const [timestamp, filePath, ...rest] = flags.positionals;
+
+  if (rest.length > 0) {
+    throw new Error(`Unexpected argument: ${rest[0]}`);
+  }
+
+  if (!timestamp) {
+    const runs = await listBackups(rootDir);
+
+    if (flags.json) {
+      stdout.write(`${JSON.stringify(runs, null, 2)}\n`);
+    } else if (runs.length === 0) {
+      stdout.write(`cpconfig restore: no backups found in ${rootDir}\n`);
+    } else {
+      const lines = [`cpconfig backups (${rootDir})`];
+      for (const run of runs) {
+        lines.push(`  ${run.timestamp}`, ...run.files.map((file) => `    ${file}`));
       }
+      stdout.write(`${lines.join('\n')}\n`);
     }
 
-    return 0;
+    return EXIT_CODES.success;
+  }
+
+  const restored = await restoreBackup(rootDir, timestamp, filePath);
+
+  if (flags.json) {
+    stdout.write(`${JSON.stringify({ timestamp, restored }, null, 2)}\n`);
+  } else {
+    stdout.write(restored.map((file) => `restored ${file}\n`).join(''));
+  }
+
+  return EXIT_CODES.success;
+}
+
+async function runInit(flags: CliFlags, { cwd, stdout, stderr }: CliIo): Promise<number> {
+  const packageDir = flags.rootDir
+    ? path.resolve(cwd, flags.rootDir)
+    : (await findNearestPackageJson(cwd)).packageDir;
+  const result = await initProject({
+    packageDir,
+    files: flags.positionals,
+    flavour: flags.flavour,
+    force: flags.force,
+    dryRun: flags.dryRun,
+  });
+
+  for (const warning of result.warnings) {
+    stderr.write(`cpconfig: warning: ${warning}\n`);
+  }
+
+  if (flags.json) {
+    stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+    return EXIT_CODES.success;
+  }
+
+  const { detection } = result;
+  const loaders = detection.loaders.length > 0 ? detection.loaders.join(', ') : 'none';
+  const lines = [
+    `cpconfig init${flags.dryRun ? ' (dry run)' : ''} (${packageDir})`,
+    `  project:      ${detection.esm ? 'ESM' : 'CommonJS'}${detection.typeScript ? ', TypeScript' : ''} (loaders: ${loaders})`,
+    `  created:      ${result.configPath}`,
+    ...result.imported.map((file) => `  imported:     ${file}`),
+    `  package.json: ${result.packageJson.updated ? `set ${result.packageJson.changedKeys.join(', ')}` : 'unchanged'}`,
+  ];
+
+  if (flags.dryRun) {
+    lines.push('', result.contents.trimEnd());
+  }
+
+  stdout.write(`${lines.join('\n')}\n`);
+  return EXIT_CODES.success;
+}
+
+type DoctorReport = {
+  rootDir: string;
+  node: { version: string; typeStripping: string | false };
+  packageJson: string | null;
+  module: {
+    specifier: string;
+    resolvedPath: string | null;
+    exists: boolean;
+    typeScript: boolean;
+  } | null;
+  loaders: { jiti: boolean; 'tsx/esm': boolean; selected: string | null };
+  config: { loaded: boolean; source?: string; files?: number; error?: string };
+  git: { version: string | null; root: string | null; tracked: string[] };
+  ignoreFiles: IgnoreFileInspection[];
+  problems: string[];
+};
+
+/**
+ * Collects everything that commonly breaks a postinstall run. Each step tolerates failures of the
+ * previous ones so the report is as complete as possible.
+ */
+async function runDoctor(
+  flags: CliFlags,
+  cliArgs: readonly string[],
+  { cwd, stdout }: CliIo,
+): Promise<number> {
+  const problems: string[] = [];
+  const typeStripping = (process.features as { typescript?: string | false }).typescript ?? false;
+  const report: DoctorReport = {
+    rootDir: cwd,
+    node: { version: process.version, typeStripping },
+    packageJson: null,
+    module: null,
+    loaders: { jiti: false, 'tsx/esm': false, selected: null },
+    config: { loaded: false },
+    git: { version: null, root: null, tracked: [] },
+    ignoreFiles: [],
+    problems,
+  };
+
+  let packageDir = cwd;
+  try {
+    const found = await findNearestPackageJson(cwd);
+    packageDir = found.packageDir;
+    report.packageJson = found.packageJsonPath;
+
+    const pkg = (await readJsonFile(found.packageJsonPath)) as PackageJson;
+    const specifier = isPlainObject(pkg.config) ? pkg.config.cpconfig : undefined;
+
+    if (typeof specifier === 'string' && specifier.trim().length > 0) {
+      report.module = { specifier, resolvedPath: null, exists: false, typeScript: false };
+      const { resolvedPath } = resolveModuleSpecifier(specifier, packageDir);
+      report.module.resolvedPath = resolvedPath;
+      report.module.typeScript = isTypeScriptModule(resolvedPath);
+      report.module.exists = await fs.access(resolvedPath).then(
+        () => true,
+        () => false,
+      );
+    } else if (!flags.configPath) {
+      problems.push(`${found.packageJsonPath} does not set config.cpconfig`);
+    }
+  } catch (error) {
+    problems.push(error instanceof Error ? error.message : String(error));
+  }
+
+  if (report.module?.resolvedPath && !report.module.exists) {
+    problems.push(`${report.module.resolvedPath} does not exist`);
+  }
+
+  const requireFromPkg = createRequire(path.join(packageDir, 'package.json'));
+  for (const loader of ['jiti', 'tsx/esm'] as const) {
+    try {
+      requireFromPkg.resolve(loader);
+      report.loaders[loader] = true;
+    } catch {
+      report.loaders[loader] = false;
+    }
+  }
+
+  if (report.module?.typeScript) {
+    // Mirrors importResolvedModule, which tries jiti through require before tsx through import.
+    report.loaders.selected = report.loaders.jiti
+      ? 'jiti'
+      : report.loaders['tsx/esm']
+        ? 'tsx/esm'
+        : null;
+
+    if (!report.loaders.selected) {
+      problems.push(
+        `${report.module.specifier} is TypeScript but neither jiti nor tsx is installed in ${packageDir}`,
+      );
+    }
+  }
+
+  let rootDir = flags.rootDir ? path.resolve(packageDir, flags.rootDir) : packageDir;
+  let options: SyncOptions = { rootDir };
+  let descriptions: ConfigDescription[] = [];
+  try {
+    const loaded = await loadConfig({ cwd, flags, cliArgs });
+    options = resolveCliOptions(flags, loaded);
+    rootDir = options.rootDir ?? loaded.packageDir;
+    descriptions = await describeConfigs(loaded.files, options);
+    report.config = { loaded: true, source: loaded.source, files: descriptions.length };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    stderr.write(`cpconfig: ${message}\n`);
-    return 1;
+    report.config = { loaded: false, error: message };
+    problems.push(message);
+  }
+
+  report.rootDir = rootDir;
+  report.git.version = await readGitVersion();
+  report.git.root = report.git.version ? await findGitRoot(rootDir) : null;
+
+  if (report.git.root) {
+    report.git.tracked =
+      (await listTrackedFiles(
+        rootDir,
+        descriptions.map((description) => description.path),
+      )) ?? [];
+
+    for (const tracked of report.git.tracked) {
+      if (descriptions.find((description) => description.path === tracked)?.gitignored) {
+        problems.push(`${tracked} is gitignored by cpconfig but tracked by git`);
+      }
+    }
+  }
+
+  const ignoreTargets = new Set(
+    options.ignoreFiles ?? [options.gitignorePath ?? path.join(rootDir, '.gitignore')],
+  );
+  for (const description of descriptions) {
+    for (const target of description.ignoreFiles) {
+      ignoreTargets.add(path.resolve(rootDir, target));
+    }
+  }
+
+  for (const target of ignoreTargets) {
+    const inspection = await inspectIgnoreFile(target, options.encoding);
+    report.ignoreFiles.push(inspection);
+    problems.push(
+      ...inspection.problems.map(
+        (problem) => `${path.relative(rootDir, inspection.path)}: ${problem}`,
+      ),
+    );
+  }
+
+  stdout.write(flags.json ? `${JSON.stringify(report, null, 2)}\n` : formatDoctorReport(report));
+  return problems.length > 0 ? EXIT_CODES.error : EXIT_CODES.success;
+}
+
+function formatDoctorReport(report: DoctorReport): string {
+  const { module, loaders, config, git } = report;
+  const describeLoader = (name: 'jiti' | 'tsx/esm') =>
+    `${name} (${loaders[name] ? 'available' : 'missing'}${loaders.selected === name ? ', used' : ''})`;
+  const lines = [
+    'cpconfig doctor',
+    `  node:          ${report.node.version} (type stripping: ${report.node.typeStripping || 'unavailable'})`,
+    `  package.json:  ${report.packageJson ?? 'not found'}`,
+    `  module:        ${
+      module ? `${module.specifier} -> ${module.resolvedPath ?? 'unresolved'}` : 'not configured'
+    }`,
+    `  loaders:       ${describeLoader('jiti')}, ${describeLoader('tsx/esm')}${
+      module?.typeScript ? '' : ' (not needed)'
+    }`,
+    `  config:        ${config.loaded ? `${config.files} file(s) from ${config.source}` : 'failed to load'}`,
+    `  git:           ${
+      !git.version
+        ? 'not installed'
+        : git.root
+          ? `repository at ${git.root}${git.tracked.length > 0 ? `, tracks ${git.tracked.join(', ')}` : ''}`
+          : 'not a repository'
+    }`,
+    ...report.ignoreFiles.map(
+      (inspection) =>
+        `  ignore file:   ${path.relative(report.rootDir, inspection.path)} (${
+          !inspection.exists
+            ? 'missing'
+            : inspection.blocks === 0
+              ? 'no managed block'
+              : `${inspection.entries.length} managed entr${inspection.entries.length === 1 ? 'y' : 'ies'}`
+        })`,
+    ),
+  ];
+
+  if (report.problems.length > 0) {
+    lines.push('', 'Problems:', ...report.problems.map((problem) => `  - ${problem}`));
+  } else {
+    lines.push('', 'No problems found.');
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function expectPositionals(flags: CliFlags, count: number) {
+  if (flags.positionals.length > count) {
+    throw new Error(`Unexpected argument: ${flags.positionals[count]}`);
+  }
+
+  if (flags.positionals.length < count) {
+    throw new Error(
+      `Missing argument for "${flags.command}". Usage: ${COMMAND_HELP[flags.command].usage}`,
+    );
+  }
+}
+
+function writeWarnings(result: SyncResult, stderr: CliIo['stderr']) {
+  for (const file of result.files) {
+    if (file.warning) {
+      stderr.write(`cpconfig: warning: ${file.warning}\n`);
+    }
   }
 }
 
 function parseFlags(args: string[]): CliFlags {
-  const flags: CliFlags = {
+  let command: CliCommand | undefined;
+  let check = false;
+  const flags: Omit<CliFlags, 'command'> = {
     dryRun: false,
+    diff: false,
     json: false,
+    transactional: false,
+    backups: false,
+    workspaces: false,
+    watch: false,
+    force: false,
+    positionals: [],
+    ignoreFiles: [],
     helpRequested: false,
   };
 
@@ -117,9 +1084,39 @@ function parseFlags(args: string[]): CliFlags {
       case '--dryRun':
         flags.dryRun = true;
         break;
+      case '--check':
+        check = true;
+        break;
+      case '--diff':
+        flags.diff = true;
+        break;
       case '--json':
         flags.json = true;
         break;
+      case '--transactional':
+        flags.transactional = true;
+        break;
+      case '--backups':
+        flags.backups = true;
+        break;
+      case '--workspaces':
+        flags.workspaces = true;
+        break;
+      case '--watch':
+        flags.watch = true;
+        break;
+      case '--force':
+        flags.force = true;
+        break;
+      case '--flavour': {
+        const value = args[index + 1] as ConfigFlavour | undefined;
+        if (!value || !CONFIG_FLAVOURS.includes(value)) {
+          throw new Error(`Expected one of ${CONFIG_FLAVOURS.join(', ')} after --flavour`);
+        }
+        flags.flavour = value;
+        index += 1;
+        break;
+      }
       case '--root':
       case '--root-dir': {
         const value = args[index + 1];
@@ -140,6 +1137,37 @@ function parseFlags(args: string[]): CliFlags {
         index += 1;
         break;
       }
+      case '--local-modifications': {
+        const value = args[index + 1] as LocalModificationPolicy | undefined;
+        if (!value || !LOCAL_MODIFICATION_POLICIES.includes(value)) {
+          throw new Error(
+            `Expected one of ${LOCAL_MODIFICATION_POLICIES.join(', ')} after --local-modifications`,
+          );
+        }
+        flags.localModifications = value;
+        index += 1;
+        break;
+      }
+      case '--tracked-files': {
+        const value = args[index + 1] as TrackedFilePolicy | undefined;
+        if (!value || !TRACKED_FILE_POLICIES.includes(value)) {
+          throw new Error(
+            `Expected one of ${TRACKED_FILE_POLICIES.join(', ')} after --tracked-files`,
+          );
+        }
+        flags.trackedFiles = value;
+        index += 1;
+        break;
+      }
+      case '--ignore-file': {
+        const value = args[index + 1];
+        if (!value) {
+          throw new Error('Expected value after --ignore-file');
+        }
+        flags.ignoreFiles.push(value);
+        index += 1;
+        break;
+      }
       case '--config': {
         const value = args[index + 1];
         if (!value) {
@@ -149,8 +1177,17 @@ function parseFlags(args: string[]): CliFlags {
         index += 1;
         break;
       }
+      case '--profile': {
+        const value = args[index + 1];
+        if (!value) {
+          throw new Error('Expected value after --profile');
+        }
+        flags.profile = value;
+        index += 1;
+        break;
+      }
       case '--':
-        // Ignore any remaining positional arguments (none are currently supported).
+        // Anything after -- is left for config factories, which receive the raw arguments.
         index = args.length;
         break;
       case '--help':
@@ -158,27 +1195,54 @@ function parseFlags(args: string[]): CliFlags {
         flags.helpRequested = true;
         break;
       default:
-        throw new Error(`Unknown argument: ${arg}`);
+        if (arg.startsWith('-')) {
+          throw new Error(`Unknown argument: ${arg}`);
+        }
+
+        if (!command && isCliCommand(arg)) {
+          command = arg;
+        } else if (command === 'explain' || command === 'restore' || command === 'init') {
+          flags.positionals.push(arg);
+        } else {
+          throw new Error(`Unknown argument: ${arg}`);
+        }
     }
   }
 
-  return flags;
+  // --check predates the check subcommand and still selects it.
+  return { ...flags, command: command ?? (check ? 'check' : 'sync') };
+}
+
+function isCliCommand(value: string): value is CliCommand {
+  return (CLI_COMMANDS as readonly string[]).includes(value);
 }
 
 type LoadConfigInput = {
   cwd: string;
   flags: CliFlags;
   cliArgs: readonly string[];
+  /**
+   * Set by watch mode to import fresh copies of modules that were loaded before.
+   */
+  reload?: number;
 };
 
-async function loadConfig({ cwd, flags, cliArgs }: LoadConfigInput): Promise<LoadedConfig> {
+async function loadConfig({ cwd, flags, cliArgs, reload }: LoadConfigInput): Promise<LoadedConfig> {
   if (flags.configPath) {
     const filePath = path.resolve(cwd, flags.configPath);
     const payload = await readJsonFile(filePath);
-    const parsed = parseConfigPayload(payload, filePath);
+    const parsed = await resolveConfigLayers(payload, filePath, {
+      packageDir: path.dirname(filePath),
+      pkg: {},
+      cliArgs,
+      profile: flags.profile,
+      chain: [filePath],
+      reload,
+    });
     return {
       ...parsed,
       packageDir: path.dirname(filePath),
+      pkg: {},
       source: filePath,
     };
   }
@@ -207,11 +1271,14 @@ async function loadConfig({ cwd, flags, cliArgs }: LoadConfigInput): Promise<Loa
     origin: packageJsonPath,
     pkg,
     cliArgs,
+    profile: flags.profile,
+    reload,
   });
 
   return {
     ...parsed,
     packageDir,
+    pkg,
     source,
   };
 }
@@ -224,47 +1291,170 @@ type PackageJson = {
 type ParsedConfig = {
   files: ConfigMap;
   options: SyncOptions;
+  /**
+   * Module that contributed each file, keyed by the declared path.
+   */
+  origins: Record<string, string>;
+  /**
+   * Every module that was loaded, the declaring module first and presets after it.
+   */
+  modules: string[];
 };
 
-function parseConfigPayload(payload: unknown, source: string): ParsedConfig {
+/**
+ * A single module's declarations before its presets are applied. Files set to null remove an
+ * inherited entry.
+ */
+type ConfigLayer = {
+  files: Record<string, ConfigEntry | null>;
+  options: SyncOptions;
+  presets: string[];
+};
+
+function parseConfigPayload(payload: unknown, source: string): ConfigLayer {
   if (payload && typeof payload === 'object') {
-    const potential = payload as { files?: unknown; options?: unknown };
+    const potential = payload as { files?: unknown; options?: unknown; extends?: unknown };
+    const presets = parsePresets(potential.extends, source);
 
-    if (potential.files && isPlainObject(potential.files)) {
-      const options = isPlainObject(potential.options) ? (potential.options as SyncOptions) : {};
-      return { files: toConfigMap(potential.files as Record<string, unknown>, source), options };
-    }
+    if (presets) {
+      const files = potential.files ?? {};
 
-    if (!('files' in potential)) {
-      return { files: toConfigMap(payload as Record<string, unknown>, source), options: {} };
+      if (isPlainObject(files)) {
+        const options = isPlainObject(potential.options) ? (potential.options as SyncOptions) : {};
+        return { files: toConfigLayerFiles(files, source), options, presets };
+      }
+    } else if (potential.files && isPlainObject(potential.files)) {
+      const options = isPlainObject(potential.options) ? (potential.options as SyncOptions) : {};
+      return {
+        files: toConfigLayerFiles(potential.files as Record<string, unknown>, source),
+        options,
+        presets: [],
+      };
+    } else if (!('files' in potential)) {
+      return {
+        files: toConfigMap(payload as Record<string, unknown>, source),
+        options: {},
+        presets: [],
+      };
     }
   }
 
   throw new Error(
-    `Invalid cpconfig definition in ${source}. Expected an object of files or { files, options }.`,
+    `Invalid cpconfig definition in ${source}. Expected an object of files or { extends, files, options }.`,
   );
 }
 
+function parsePresets(value: unknown, source: string): string[] | null {
+  if (value === undefined) {
+    return null;
+  }
+
+  const presets = typeof value === 'string' ? [value] : value;
+
+  if (
+    !Array.isArray(presets) ||
+    !presets.every((preset) => typeof preset === 'string' && preset.trim().length > 0)
+  ) {
+    throw new Error(
+      `Invalid extends in ${source}. Expected a module specifier or an array of module specifiers.`,
+    );
+  }
+
+  return presets as string[];
+}
+
+type ConfigLayerContext = {
+  packageDir: string;
+  pkg: Record<string, unknown>;
+  cliArgs: readonly string[];
+  profile?: string;
+  /**
+   * Modules currently being loaded, outermost first, used to report circular extends.
+   */
+  chain: string[];
+  reload?: number;
+};
+
+/**
+ * Applies a module's presets in order, then its own files and options on top. Later layers
+ * replace whole file entries and individual options.
+ */
+async function resolveConfigLayers(
+  payload: unknown,
+  source: string,
+  context: ConfigLayerContext,
+): Promise<ParsedConfig> {
+  const layer = parseConfigPayload(payload, source);
+  const merged: ParsedConfig = { files: {}, options: {}, origins: {}, modules: [source] };
+
+  for (const preset of layer.presets) {
+    const { parsed } = await loadConfigModule({
+      specifier: preset,
+      baseDir: path.dirname(source),
+      packageDir: context.packageDir,
+      origin: source,
+      pkg: context.pkg,
+      cliArgs: context.cliArgs,
+      profile: context.profile,
+      chain: context.chain,
+      reload: context.reload,
+    });
+
+    merged.modules.push(...parsed.modules);
+    Object.assign(merged.files, parsed.files);
+    Object.assign(merged.origins, parsed.origins);
+    Object.assign(merged.options, parsed.options);
+  }
+
+  for (const [filePath, entry] of Object.entries(layer.files)) {
+    if (entry === null) {
+      delete merged.files[filePath];
+      delete merged.origins[filePath];
+    } else {
+      merged.files[filePath] = entry;
+      merged.origins[filePath] = source;
+    }
+  }
+
+  Object.assign(merged.options, layer.options);
+  return merged;
+}
+
 type LoadConfigModuleInput = {
   specifier: string;
+  /**
+   * Directory relative specifiers resolve from. Defaults to packageDir.
+   */
+  baseDir?: string;
   packageDir: string;
   origin: string;
   pkg: Record<string, unknown>;
   cliArgs: readonly string[];
+  profile?: string;
+  chain?: string[];
+  reload?: number;
 };
 
 async function loadConfigModule({
   specifier,
+  baseDir,
   packageDir,
   origin,
   pkg,
   cliArgs,
+  profile,
+  chain = [],
+  reload,
 }: LoadConfigModuleInput) {
-  const { resolvedPath, url } = resolveModuleSpecifier(specifier, packageDir);
+  const { resolvedPath, url } = resolveModuleSpecifier(specifier, baseDir ?? packageDir);
+
+  if (chain.includes(resolvedPath)) {
+    throw new Error(`Circular extends: ${[...chain, resolvedPath].join(' -> ')}`);
+  }
 
   let imported: Record<string, unknown>;
   try {
-    imported = await importResolvedModule({ resolvedPath, url, packageDir });
+    imported = await importResolvedModule({ resolvedPath, url, packageDir, reload });
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     throw new Error(
@@ -277,8 +1467,17 @@ async function loadConfigModule({
   const payload = await unwrapConfigFactory(exported, resolvedPath, {
     pkg,
     cliArgs,
+    profile,
+    packageDir,
+  });
+  const parsed = await resolveConfigLayers(payload, resolvedPath, {
+    packageDir,
+    pkg,
+    cliArgs,
+    profile,
+    chain: [...chain, resolvedPath],
+    reload,
   });
-  const parsed = parseConfigPayload(payload, resolvedPath);
 
   return { parsed, source: resolvedPath };
 }
@@ -314,13 +1513,17 @@ function resolveModuleSpecifier(
 
 async function importResolvedModule({
   resolvedPath,
-  url,
+  url: moduleUrl,
   packageDir,
+  reload,
 }: {
   resolvedPath: string;
   url: string;
   packageDir: string;
+  reload?: number;
 }): Promise<Record<string, unknown>> {
+  const url = reload === undefined ? moduleUrl : prepareReload(moduleUrl, reload);
+
   if (!isTypeScriptModule(resolvedPath)) {
     return (await import(url)) as Record<string, unknown>;
   }
@@ -338,7 +1541,10 @@ async function importResolvedModule({
           filename: string,
           options?: unknown,
         ) => (code: string) => Record<string, unknown>;
-        const jiti = createJiti(resolvedPath, { cache: false });
+        const jiti = createJiti(resolvedPath, {
+          cache: false,
+          ...(reload === undefined ? {} : { requireCache: false, moduleCache: false }),
+        });
         return jiti(resolvedPath);
       }
 
@@ -372,6 +1578,46 @@ async function importResolvedModule({
   throw buildTypeScriptSupportError(resolvedPath, attempts);
 }
 
+const RELOAD_QUERY = 'cpconfig-reload';
+
+// Copies the reload query of an importing module onto the local modules it imports, so a reload
+// re-evaluates the whole local import graph instead of only the entry module.
+const RELOAD_HOOK_SOURCE = `
+export async function resolve(specifier, context, nextResolve) {
+  const result = await nextResolve(specifier, context);
+  const match = context.parentURL && /[?&]${RELOAD_QUERY}=(\\d+)/.exec(context.parentURL);
+  if (!match || !result.url.startsWith('file:') || result.url.includes('/node_modules/') || result.url.includes('${RELOAD_QUERY}=')) {
+    return result;
+  }
+  return { ...result, url: result.url + (result.url.includes('?') ? '&' : '?') + '${RELOAD_QUERY}=' + match[1] };
+}
+`;
+
+let reloadHookRegistered = false;
+
+/**
+ * Returns a module URL that bypasses Node's module cache. CommonJS modules outside node_modules are
+ * also evicted from require.cache, which import() of a .cjs file consults.
+ */
+function prepareReload(moduleUrl: string, reload: number): string {
+  // module.register arrived in Node 20.6; older versions only reload the entry module.
+  if (!reloadHookRegistered && typeof nodeModule.register === 'function') {
+    reloadHookRegistered = true;
+    nodeModule.register(`data:text/javascript,${encodeURIComponent(RELOAD_HOOK_SOURCE)}`);
+  }
+
+  const { cache } = createRequire(import.meta.url);
+  for (const cachedPath of Object.keys(cache)) {
+    if (!cachedPath.split(path.sep).includes('node_modules')) {
+      delete cache[cachedPath];
+    }
+  }
+
+  const url = new URL(moduleUrl);
+  url.searchParams.set(RELOAD_QUERY, String(reload));
+  return url.href;
+}
+
 function isTypeScriptModule(filePath: string): boolean {
   if (filePath.endsWith('.d.ts')) {
     return false;
@@ -556,7 +1802,7 @@ function selectConfigExport(imported: Record<string, unknown>, resolvedPath: str
     return imported.config;
   }
 
-  if ('files' in imported || 'options' in imported) {
+  if ('files' in imported || 'options' in imported || 'extends' in imported) {
     return imported;
   }
 
@@ -568,16 +1814,41 @@ function selectConfigExport(imported: Record<string, unknown>, resolvedPath: str
 async function unwrapConfigFactory(
   exported: unknown,
   resolvedPath: string,
-  context: { pkg: Record<string, unknown>; cliArgs: readonly string[] },
+  context: {
+    pkg: Record<string, unknown>;
+    cliArgs: readonly string[];
+    profile?: string;
+    packageDir: string;
+  },
 ): Promise<unknown> {
   if (typeof exported === 'function') {
+    // Workspace discovery walks directories and reads every package manifest, so it only runs once
+    // a factory asks for it. A broken manifest then fails only the factories that use the list.
+    let workspaces: Promise<WorkspacePackage[]> | undefined;
+    const options = {
+      args: context.cliArgs,
+      profile: context.profile,
+      get workspaces() {
+        if (!workspaces) {
+          workspaces = findWorkspacePackages(context.packageDir);
+          // Reading the property without awaiting it must not surface as an unhandled rejection.
+          workspaces.catch(() => undefined);
+        }
+        return workspaces;
+      },
+    };
+
     try {
       const result = (
         exported as (
           config: Record<string, unknown>,
-          options: { args: readonly string[] },
+          options: {
+            args: readonly string[];
+            profile: string | undefined;
+            workspaces: Promise<WorkspacePackage[]>;
+          },
         ) => unknown
-      )(context.pkg, { args: context.cliArgs });
+      )(context.pkg, options);
       if (isPromiseLike(result)) {
         return await result;
       }
@@ -601,17 +1872,40 @@ function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
   );
 }
 
+function toConfigLayerFiles(
+  value: Record<string, unknown>,
+  source: string,
+): Record<string, ConfigEntry | null> {
+  const entries: Record<string, ConfigEntry | null> = {};
+
+  for (const [filePath, rawEntry] of Object.entries(value)) {
+    entries[filePath] =
+      rawEntry === null ? null : toConfigMap({ [filePath]: rawEntry }, source)[filePath];
+  }
+
+  return entries;
+}
+
 function toConfigMap(value: Record<string, unknown>, source: string): ConfigMap {
   const entries: ConfigMap = {};
 
   for (const [filePath, rawEntry] of Object.entries(value)) {
-    if (!isPlainObject(rawEntry) || !('contents' in rawEntry)) {
+    if (!isPlainObject(rawEntry) || !ENTRY_INPUTS.some((input) => input in rawEntry)) {
       throw new Error(
-        `Invalid entry for "${filePath}" in ${source}. Each file must be an object with a contents property.`,
+        `Invalid entry for "${filePath}" in ${source}. Each file must be an object with a contents, data, template, copy, symlink or absent property.`,
       );
     }
 
-    entries[filePath] = rawEntry as ConfigEntry;
+    // Templates, copied files and link targets sit next to the module declaring them, which may be
+    // a preset in another package.
+    const resolved: Record<string, unknown> = { ...rawEntry };
+    for (const key of ['template', 'copy', 'symlink'] as const) {
+      if (typeof rawEntry[key] === 'string') {
+        resolved[key] = path.resolve(path.dirname(source), rawEntry[key]);
+      }
+    }
+
+    entries[filePath] = resolved as ConfigEntry;
   }
 
   return entries;
@@ -648,31 +1942,99 @@ async function readJsonFile(filePath: string): Promise<unknown> {
   }
 }
 
-function formatResult(result: SyncResult, flags: CliFlags, loaded: LoadedConfig): string {
+function formatResult(
+  result: SyncResult,
+  label: string,
+  loaded: LoadedConfig,
+  color: boolean,
+): string {
   const lines: string[] = [];
-  const modeLabel = flags.dryRun ? 'dry run' : 'apply';
-  lines.push(`cpconfig ${modeLabel} (${loaded.source})`);
+  lines.push(`cpconfig ${label} (${loaded.source})`);
 
   for (const file of result.files) {
     lines.push(formatFileLine(file));
+    if (file.diff) {
+      lines.push(formatDiff(file.diff, color));
+    }
+  }
+
+  for (const ignoreFile of result.ignoreFiles) {
+    const label =
+      result.ignoreFiles.length === 1
+        ? 'gitignore'
+        : path.relative(result.rootDir, ignoreFile.path).split(path.sep).join('/');
+    const summary = ignoreFile.skipped
+      ? 'skipped (no entries)'
+      : ignoreFile.updated
+        ? `updated (+${ignoreFile.added.length} / -${ignoreFile.removed.length})`
+        : 'unchanged';
+    lines.push(`${label}: ${summary}`);
+
+    if (ignoreFile.diff) {
+      lines.push(formatDiff(ignoreFile.diff, color));
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+function formatCheckFailure(check: CheckResult, color: boolean): string {
+  const count = check.issues.length;
+  const lines = [`cpconfig check: ${count} ${count === 1 ? 'path is' : 'paths are'} out of date`];
+
+  for (const issue of check.issues) {
+    const line = `  ${issue.reason.padEnd(9, ' ')} ${issue.path}`;
+    lines.push(issue.message ? `${line} (${issue.message})` : line);
   }
 
-  const gitignoreSummary = result.gitignore.skipped
-    ? 'gitignore: skipped (no entries)'
-    : result.gitignore.updated
-      ? `gitignore: updated (+${result.gitignore.added.length} / -${result.gitignore.removed.length})`
-      : 'gitignore: unchanged';
-  lines.push(gitignoreSummary);
+  const diffs = [
+    ...check.result.files.map((file) => file.diff),
+    ...check.result.ignoreFiles.map((ignoreFile) => ignoreFile.diff),
+  ];
+  for (const diff of diffs) {
+    if (diff) {
+      lines.push(formatDiff(diff, color));
+    }
+  }
 
+  lines.push('Run cpconfig to apply the changes.');
   return `${lines.join('\n')}\n`;
 }
 
+function formatDiff(diff: string, color: boolean): string {
+  const trimmed = diff.replace(/\n$/, '');
+  return color ? colorizeDiff(trimmed) : trimmed;
+}
+
+function supportsColor(stream: CliRunOptions['stdout']): boolean {
+  if (process.env.NO_COLOR) {
+    return false;
+  }
+
+  return Boolean((stream as { isTTY?: boolean } | undefined)?.isTTY);
+}
+
 function formatFileLine(file: SyncResult['files'][number]): string {
   const status = file.action.padEnd(8, ' ');
   const base = `${status} ${file.path}`;
   if (!file.managed) {
     return `${base} (unmanaged)`;
   }
+  if (file.conflicts) {
+    return `${base} (${file.conflicts} conflict${file.conflicts === 1 ? '' : 's'})`;
+  }
+  if (file.backupPath) {
+    return `${base} (backed up to ${file.backupPath})`;
+  }
+  if (file.removedDirectories) {
+    return `${base} (removed empty ${file.removedDirectories.join(', ')})`;
+  }
+  if (file.block && file.block !== 'unchanged') {
+    return `${base} (block ${file.block})`;
+  }
+  if (file.changedKeys && file.changedKeys.length > 0) {
+    return `${base} (${file.changedKeys.join(', ')})`;
+  }
   return file.gitignored ? `${base} (gitignored)` : base;
 }
 
@@ -684,15 +2046,141 @@ function isPlainObject(value: unknown): value is Record<string, unknown> {
   );
 }
 
-function buildHelpMessage(): string {
-  return (
-    `Usage: cpconfig [options]\n\n` +
-    `Options:\n` +
-    `  --dry-run             Compute changes without writing files\n` +
-    `  --json                Print the sync result as JSON\n` +
-    `  --root <path>         Override the root directory used for file writes\n` +
-    `  --gitignore <path>    Override the gitignore file path\n` +
-    `  --config <path>       Load configuration from an explicit JSON file\n` +
-    `  --help, -h            Show this message\n`
-  );
+const OPTION_HELP = {
+  dryRun: '  --dry-run             Compute changes without writing files',
+  check: '  --check               Same as the check command',
+  diff: '  --diff                Show a unified diff for every changed file',
+  json: '  --json                Print machine-readable JSON',
+  transactional: '  --transactional       Restore every written file if the command fails part-way',
+  backups: '  --backups             Back up files cpconfig did not generate before replacing them',
+  localModifications:
+    '  --local-modifications <policy>\n' +
+    '                        overwrite (default), skip-with-warning or backup-then-overwrite',
+  trackedFiles:
+    '  --tracked-files <policy>\n' +
+    '                        warn (default), fail or ignore when git tracks a gitignored file',
+  watch: '  --watch               Re-sync when the config, its imports or generated files change',
+  workspaces: '  --workspaces          Run in the workspace root and every workspace package',
+  root: '  --root <path>         Override the root directory used for file writes',
+  gitignore: '  --gitignore <path>    Override the gitignore file path',
+  ignoreFile:
+    '  --ignore-file <path>  Maintain a managed block in this ignore file instead of --gitignore\n' +
+    '                        (repeatable)',
+  config: '  --config <path>       Load configuration from an explicit JSON file',
+  profile: '  --profile <name>      Profile passed to config factories and when predicates',
+  force: '  --force               Replace an existing config module and config.cpconfig reference',
+  flavour:
+    '  --flavour <flavour>   Write an esm, cjs or typescript module instead of the detected one',
+  help: '  --help, -h            Show this message',
+};
+
+const CONFIG_OPTIONS = [
+  OPTION_HELP.root,
+  OPTION_HELP.gitignore,
+  OPTION_HELP.ignoreFile,
+  OPTION_HELP.config,
+  OPTION_HELP.profile,
+];
+
+const COMMAND_HELP: Record<CliCommand, { usage: string; summary: string; options: string[] }> = {
+  sync: {
+    usage: 'cpconfig [sync] [options]',
+    summary: 'Write declared files and update the managed ignore blocks (the default command).',
+    options: [
+      OPTION_HELP.dryRun,
+      OPTION_HELP.check,
+      OPTION_HELP.diff,
+      OPTION_HELP.json,
+      OPTION_HELP.transactional,
+      OPTION_HELP.backups,
+      OPTION_HELP.localModifications,
+      OPTION_HELP.trackedFiles,
+      OPTION_HELP.watch,
+      OPTION_HELP.workspaces,
+      ...CONFIG_OPTIONS,
+    ],
+  },
+  check: {
+    usage: 'cpconfig check [options]',
+    summary: 'Exit with code 2 when files or ignore blocks are out of date. Nothing is written.',
+    options: [
+      OPTION_HELP.diff,
+      OPTION_HELP.json,
+      OPTION_HELP.localModifications,
+      OPTION_HELP.trackedFiles,
+      OPTION_HELP.workspaces,
+      ...CONFIG_OPTIONS,
+    ],
+  },
+  list: {
+    usage: 'cpconfig list [options]',
+    summary: 'Show every declared file with its managed, gitignore and sentinel status.',
+    options: [OPTION_HELP.json, OPTION_HELP.workspaces, ...CONFIG_OPTIONS],
+  },
+  diff: {
+    usage: 'cpconfig diff [options]',
+    summary: 'Print unified diffs of everything a sync would change. Nothing is written.',
+    options: [
+      OPTION_HELP.json,
+      OPTION_HELP.localModifications,
+      OPTION_HELP.workspaces,
+      ...CONFIG_OPTIONS,
+    ],
+  },
+  clean: {
+    usage: 'cpconfig clean [options]',
+    summary: 'Remove every managed file and the managed ignore blocks.',
+    options: [
+      OPTION_HELP.dryRun,
+      OPTION_HELP.diff,
+      OPTION_HELP.json,
+      OPTION_HELP.transactional,
+      OPTION_HELP.backups,
+      OPTION_HELP.localModifications,
+      OPTION_HELP.workspaces,
+      ...CONFIG_OPTIONS,
+    ],
+  },
+  explain: {
+    usage: 'cpconfig explain <path> [options]',
+    summary: 'Show which configuration declared a path and its effective settings.',
+    options: [OPTION_HELP.json, ...CONFIG_OPTIONS],
+  },
+  restore: {
+    usage: 'cpconfig restore [<timestamp> [<path>]] [options]',
+    summary: 'List backup runs, or restore a whole run or a single file from one.',
+    options: [OPTION_HELP.json, OPTION_HELP.root],
+  },
+  init: {
+    usage: 'cpconfig init [<file>...] [options]',
+    summary: 'Create a starter config module, importing the given files, and wire up package.json.',
+    options: [
+      OPTION_HELP.dryRun,
+      OPTION_HELP.json,
+      OPTION_HELP.flavour,
+      OPTION_HELP.force,
+      OPTION_HELP.root,
+    ],
+  },
+  doctor: {
+    usage: 'cpconfig doctor [options]',
+    summary: 'Diagnose config loading, TypeScript loaders, git tracking and the ignore blocks.',
+    options: [OPTION_HELP.json, ...CONFIG_OPTIONS],
+  },
+};
+
+function buildHelpMessage(command: CliCommand): string {
+  const help = COMMAND_HELP[command];
+  const lines = [`Usage: ${help.usage}`, '', help.summary];
+
+  if (command === 'sync') {
+    lines.push('', 'Commands:');
+    for (const name of CLI_COMMANDS) {
+      lines.push(`  ${name.padEnd(20, ' ')}${COMMAND_HELP[name].summary}`);
+    }
+    lines.push('', 'Run cpconfig <command> --help for command-specific options.');
+  }
+
+  lines.push('', 'Options:', ...help.options, OPTION_HELP.help);
+  return `${lines.join('\n')}\n`;
 }
@@ -1,8 +1,8 @@
-import { mkdir, mkdtemp, readFile, rm, symlink, writeFile } from 'node:fs/promises';
+import { mkdir, mkdtemp, readFile, readlink, rm, symlink, writeFile } from 'node:fs/promises';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import { beforeAll, describe, expect, test } from 'vitest';
-import { runCli } from './cli-functions.js';
+import { EXIT_CODES, runCli } from './cli-functions.js';
 
 const packageTemplate = {
   name: 'cpconfig-fixture',
@@ -233,6 +233,528 @@ describe('cli', () => {
     });
   });
 
+  test('check mode exits with the drift code until files are synced', async () => {
+    await withTempDir(async (cwd) => {
+      const modulePath = path.join(cwd, 'cpconfig.check.mjs');
+
+      await writeFile(
+        modulePath,
+        `export default {\n  files: {\n    'checked.txt': { contents: 'checked' }\n  }\n};\n`,
+      );
+
+      await writeFile(
+        path.join(cwd, 'package.json'),
+        JSON.stringify(
+          {
+            ...packageTemplate,
+            config: {
+              cpconfig: './cpconfig.check.mjs',
+            },
+          },
+          null,
+          2,
+        ),
+      );
+
+      const stdout = createBuffer();
+      const stderr = createBuffer();
+
+      const driftCode = await runCli(['--check'], { cwd, stdout, stderr });
+
+      expect(driftCode).toBe(EXIT_CODES.drift);
+      expect(stderr.toString()).toContain('cpconfig check: 2 paths are out of date');
+      expect(stderr.toString()).toMatch(/created\s+checked\.txt/);
+      expect(stderr.toString()).toMatch(/gitignore\s+\.gitignore/);
+      await expect(readFile(path.join(cwd, 'checked.txt'), 'utf8')).rejects.toThrow();
+
+      expect(await runCli([], { cwd, stdout: createBuffer(), stderr: createBuffer() })).toBe(0);
+
+      const cleanStdout = createBuffer();
+      const cleanCode = await runCli(['--check'], {
+        cwd,
+        stdout: cleanStdout,
+        stderr: createBuffer(),
+      });
+
+      expect(cleanCode).toBe(EXIT_CODES.success);
+      expect(cleanStdout.toString()).toContain('cpconfig check: up to date');
+    });
+  });
+
+  test('check mode distinguishes configuration errors from drift', async () => {
+    await withTempDir(async (cwd) => {
+      await writeFile(path.join(cwd, 'package.json'), JSON.stringify(packageTemplate, null, 2));
+
+      const exitCode = await runCli(['--check'], {
+        cwd,
+        stdout: createBuffer(),
+        stderr: createBuffer(),
+      });
+
+      expect(exitCode).toBe(EXIT_CODES.error);
+    });
+  });
+
+  test('prints diffs for pending changes', async () => {
+    await withTempDir(async (cwd) => {
+      const modulePath = path.join(cwd, 'cpconfig.diff.mjs');
+
+      await writeFile(
+        modulePath,
+        `export default {\n  files: {\n    'diffed.txt': { contents: 'next\\n' }\n  }\n};\n`,
+      );
+
+      await writeFile(
+        path.join(cwd, 'package.json'),
+        JSON.stringify(
+          {
+            ...packageTemplate,
+            config: {
+              cpconfig: './cpconfig.diff.mjs',
+            },
+          },
+          null,
+          2,
+        ),
+      );
+
+      const stdout = createBuffer();
+      const exitCode = await runCli(['--dry-run', '--diff'], {
+        cwd,
+        stdout,
+        stderr: createBuffer(),
+      });
+
+      expect(exitCode).toBe(0);
+      expect(stdout.toString()).toContain('created  diffed.txt');
+      expect(stdout.toString()).toContain('+++ b/diffed.txt\n@@ -0,0 +1 @@\n+next');
+      expect(stdout.toString()).toContain('+/diffed.txt');
+      expect(stdout.toString()).not.toContain('\u001b[');
+    });
+  });
+
+  test('accepts repeated --ignore-file flags', async () => {
+    await withTempDir(async (cwd) => {
+      const modulePath = path.join(cwd, 'cpconfig.ignore.mjs');
+
+      await writeFile(
+        modulePath,
+        `export default {\n  files: {\n    '.env.local': { contents: 'TOKEN=1' }\n  }\n};\n`,
+      );
+
+      await writeFile(
+        path.join(cwd, 'package.json'),
+        JSON.stringify(
+          {
+            ...packageTemplate,
+            config: {
+              cpconfig: './cpconfig.ignore.mjs',
+            },
+          },
+          null,
+          2,
+        ),
+      );
+
+      const stdout = createBuffer();
+      const exitCode = await runCli(
+        ['--ignore-file', '.gitignore', '--ignore-file', '.npmignore'],
+        {
+          cwd,
+          stdout,
+          stderr: createBuffer(),
+        },
+      );
+
+      expect(exitCode).toBe(0);
+      await expect(readFile(path.join(cwd, '.gitignore'), 'utf8')).resolves.toContain(
+        '/.env.local',
+      );
+      await expect(readFile(path.join(cwd, '.npmignore'), 'utf8')).resolves.toContain(
+        '/.env.local',
+      );
+      expect(stdout.toString()).toContain('.npmignore: updated (+1 / -0)');
+    });
+  });
+
+  test('exits with the conflict code when a merge leaves conflicts behind', async () => {
+    await withTempDir(async (cwd) => {
+      const writeConfig = (contents: string) =>
+        writeFile(
+          path.join(cwd, 'cpconfig.json'),
+          JSON.stringify({ files: { 'merged.txt': { contents, strategy: 'merge' } } }),
+        );
+
+      await writeConfig('generated v1\n');
+      expect(
+        await runCli(['--config', 'cpconfig.json'], {
+          cwd,
+          stdout: createBuffer(),
+          stderr: createBuffer(),
+        }),
+      ).toBe(EXIT_CODES.success);
+
+      await writeFile(path.join(cwd, 'merged.txt'), 'edited locally\n');
+      await writeConfig('generated v2\n');
+
+      const stderr = createBuffer();
+      const exitCode = await runCli(['--config', 'cpconfig.json'], {
+        cwd,
+        stdout: createBuffer(),
+        stderr,
+      });
+
+      expect(exitCode).toBe(EXIT_CODES.conflict);
+      expect(stderr.toString()).toContain('conflict: merged.txt has 1 conflicting region(s)');
+    });
+  });
+
+  test('lists and restores backups', async () => {
+    await withTempDir(async (cwd) => {
+      const backupDir = path.join(cwd, '.cpconfig/backups/2024-01-01T00-00-00-000Z');
+      await writeFile(path.join(cwd, 'package.json'), JSON.stringify(packageTemplate));
+      await mkdir(path.join(backupDir, 'config'), { recursive: true });
+      await writeFile(path.join(backupDir, 'config/app.conf'), 'previous');
+      await writeFile(path.join(backupDir, 'other.conf'), 'other');
+
+      const listing = createBuffer();
+      expect(await runCli(['restore'], { cwd, stdout: listing, stderr: createBuffer() })).toBe(
+        EXIT_CODES.success,
+      );
+      expect(listing.toString()).toContain(
+        '  2024-01-01T00-00-00-000Z\n    config/app.conf\n    other.conf\n',
+      );
+
+      const stdout = createBuffer();
+      const exitCode = await runCli(['restore', '2024-01-01T00-00-00-000Z', 'config/app.conf'], {
+        cwd,
+        stdout,
+        stderr: createBuffer(),
+      });
+
+      expect(exitCode).toBe(EXIT_CODES.success);
+      expect(stdout.toString()).toBe('restored config/app.conf\n');
+      await expect(readFile(path.join(cwd, 'config/app.conf'), 'utf8')).resolves.toBe('previous');
+      await expect(readFile(path.join(cwd, 'other.conf'), 'utf8')).rejects.toThrowError();
+
+      const stderr = createBuffer();
+      expect(await runCli(['restore', 'missing'], { cwd, stdout, stderr })).toBe(EXIT_CODES.error);
+      expect(stderr.toString()).toContain('No backup named "missing"');
+    });
+  });
+
+  test('lists declared files and explains a single path', async () => {
+    await withTempDir(async (cwd) => {
+      await writeFile(
+        path.join(cwd, 'cpconfig.json'),
+        JSON.stringify({
+          files: {
+            'config/app.json': { contents: '{}', mode: 384 },
+            'notes.txt': { contents: '# cpconfig\n', sentinel: '# cpconfig', gitignore: false },
+          },
+        }),
+      );
+      const io = () => ({ cwd, stdout: createBuffer(), stderr: createBuffer() });
+
+      const list = io();
+      expect(await runCli(['list', '--config', 'cpconfig.json'], list)).toBe(EXIT_CODES.success);
+      expect(list.stdout.toString()).toContain(
+        'managed   config/app.json (gitignored, pending created)\n' +
+          'managed   notes.txt (sentinel "# cpconfig", pending created)\n',
+      );
+
+      const json = io();
+      await runCli(['list', '--json', '--config', 'cpconfig.json'], json);
+      expect(JSON.parse(json.stdout.toString())).toEqual([
+        expect.objectContaining({ path: 'config/app.json', managed: true, action: 'created' }),
+        expect.objectContaining({ path: 'notes.txt', sentinel: '# cpconfig', gitignored: false }),
+      ]);
+
+      const explain = io();
+      expect(
+        await runCli(['explain', './config/app.json', '--config', 'cpconfig.json'], explain),
+      ).toBe(EXIT_CODES.success);
+      expect(explain.stdout.toString()).toContain('config/app.json\n  declared in: ');
+      expect(explain.stdout.toString()).toContain('  mode:        0o600\n');
+
+      const missing = io();
+      expect(await runCli(['explain', 'nope.txt', '--config', 'cpconfig.json'], missing)).toBe(
+        EXIT_CODES.error,
+      );
+      expect(missing.stderr.toString()).toContain('declares "nope.txt"');
+    });
+  });
+
+  test('prints diffs and cleans up managed files', async () => {
+    await withTempDir(async (cwd) => {
+      await writeFile(
+        path.join(cwd, 'cpconfig.json'),
+        JSON.stringify({ files: { 'app.env': { contents: 'A=1\n' } } }),
+      );
+      const args = ['--config', 'cpconfig.json'];
+
+      const diff = createBuffer();
+      await runCli(['diff', ...args], { cwd, stdout: diff, stderr: createBuffer() });
+      expect(diff.toString()).toContain('--- /dev/null\n+++ b/app.env\n@@ -0,0 +1 @@\n+A=1\n');
+      await expect(readFile(path.join(cwd, 'app.env'), 'utf8')).rejects.toThrowError();
+
+      await runCli(args, { cwd, stdout: createBuffer(), stderr: createBuffer() });
+
+      const clean = createBuffer();
+      expect(await runCli(['clean', ...args], { cwd, stdout: clean, stderr: createBuffer() })).toBe(
+        EXIT_CODES.success,
+      );
+      expect(clean.toString()).toContain('deleted  app.env');
+      await expect(readFile(path.join(cwd, 'app.env'), 'utf8')).rejects.toThrowError();
+      await expect(readFile(path.join(cwd, '.gitignore'), 'utf8')).rejects.toThrowError();
+    });
+  });
+
+  test('scaffolds a config module that the next sync loads', async () => {
+    await withTempDir(async (cwd) => {
+      await writeFile(path.join(cwd, 'package.json'), JSON.stringify(packageTemplate, null, 2));
+      await writeFile(path.join(cwd, '.env.local'), 'TOKEN=1\n');
+
+      const stdout = createBuffer();
+      expect(
+        await runCli(['init', '.env.local', '--flavour', 'esm'], {
+          cwd,
+          stdout,
+          stderr: createBuffer(),
+        }),
+      ).toBe(EXIT_CODES.success);
+      expect(stdout.toString()).toContain(
+        '  created:      cpconfig.config.mjs\n  imported:     .env.local\n' +
+          '  package.json: set config, scripts\n',
+      );
+
+      const pkg = JSON.parse(await readFile(path.join(cwd, 'package.json'), 'utf8'));
+      expect(pkg).toMatchObject({
+        config: { cpconfig: './cpconfig.config.mjs' },
+        scripts: { postinstall: 'cpconfig' },
+      });
+
+      expect(await runCli([], { cwd, stdout: createBuffer(), stderr: createBuffer() })).toBe(
+        EXIT_CODES.success,
+      );
+      await expect(readFile(path.join(cwd, '.gitignore'), 'utf8')).resolves.toContain(
+        '/.env.local',
+      );
+    });
+  });
+
+  test('diagnoses configuration problems', async () => {
+    await withTempDir(async (cwd) => {
+      await writeFile(
+        path.join(cwd, 'package.json'),
+        JSON.stringify({ ...packageTemplate, config: { cpconfig: './missing.ts' } }, null, 2),
+      );
+      await writeFile(path.join(cwd, '.gitignore'), '# Managed by cpconfig\n');
+
+      const stdout = createBuffer();
+      expect(await runCli(['doctor', '--json'], { cwd, stdout, stderr: createBuffer() })).toBe(
+        EXIT_CODES.error,
+      );
+
+      const report = JSON.parse(stdout.toString());
+      expect(report).toMatchObject({
+        packageJson: path.join(cwd, 'package.json'),
+        module: { specifier: './missing.ts', exists: false, typeScript: true },
+        config: { loaded: false },
+        ignoreFiles: [{ path: path.join(cwd, '.gitignore'), blocks: 1 }],
+      });
+      expect(report.problems).toContain(`${path.join(cwd, 'missing.ts')} does not exist`);
+      expect(report.problems).toContain('.gitignore: the managed block has no entries');
+
+      const human = createBuffer();
+      await runCli(['doctor'], { cwd, stdout: human, stderr: createBuffer() });
+      expect(human.toString()).toContain('  config:        failed to load\n');
+      expect(human.toString()).toContain('Problems:\n');
+    });
+  });
+
+  test('layers presets listed in extends', async () => {
+    await withTempDir(async (cwd) => {
+      const presetDir = path.join(cwd, 'node_modules', '@org', 'cpconfig-base');
+      await mkdir(presetDir, { recursive: true });
+      await writeFile(
+        path.join(presetDir, 'package.json'),
+        JSON.stringify({ name: '@org/cpconfig-base', type: 'module', main: 'index.mjs' }),
+      );
+      await writeFile(
+        path.join(presetDir, 'index.mjs'),
+        `export default {\n  files: {\n    '.editorconfig': { contents: 'root = true\\n' },\n    '.prettierrc': { contents: '{}\\n' },\n    'legacy.txt': { contents: 'old\\n' },\n  },\n  options: { prune: false },\n};\n`,
+      );
+      await writeFile(
+        path.join(cwd, 'local-preset.mjs'),
+        `export default { files: { '.prettierrc': { contents: '{ "semi": false }\\n' } } };\n`,
+      );
+      await writeFile(
+        path.join(cwd, 'cpconfig.config.mjs'),
+        `export default {\n  extends: ['@org/cpconfig-base', './local-preset.mjs'],\n  files: { 'legacy.txt': null, 'app.env': { contents: 'A=1\\n' } },\n};\n`,
+      );
+      await writeFile(
+        path.join(cwd, 'package.json'),
+        JSON.stringify({ ...packageTemplate, config: { cpconfig: './cpconfig.config.mjs' } }),
+      );
+
+      expect(await runCli([], { cwd, stdout: createBuffer(), stderr: createBuffer() })).toBe(
+        EXIT_CODES.success,
+      );
+      await expect(readFile(path.join(cwd, '.prettierrc'), 'utf8')).resolves.toBe(
+        '{ "semi": false }\n',
+      );
+      await expect(readFile(path.join(cwd, 'legacy.txt'), 'utf8')).rejects.toThrowError();
+
+      const list = createBuffer();
+      await runCli(['list', '--json'], { cwd, stdout: list, stderr: createBuffer() });
+      expect(
+        JSON.parse(list.toString()).map((entry: { path: string; source: string }) => [
+          entry.path,
+          path.relative(cwd, entry.source),
+        ]),
+      ).toEqual([
+        ['.editorconfig', path.join('node_modules', '@org', 'cpconfig-base', 'index.mjs')],
+        ['.prettierrc', 'local-preset.mjs'],
+        ['app.env', 'cpconfig.config.mjs'],
+      ]);
+
+      const explain = createBuffer();
+      await runCli(['explain', '.prettierrc'], { cwd, stdout: explain, stderr: createBuffer() });
+      expect(explain.toString()).toContain(
+        `  declared in: ${path.join(cwd, 'local-preset.mjs')}\n`,
+      );
+    });
+  });
+
+  test('rejects circular extends', async () => {
+    await withTempDir(async (cwd) => {
+      await writeFile(path.join(cwd, 'a.mjs'), `export default { extends: './b.mjs' };\n`);
+      await writeFile(path.join(cwd, 'b.mjs'), `export default { extends: './a.mjs' };\n`);
+      await writeFile(
+        path.join(cwd, 'package.json'),
+        JSON.stringify({ ...packageTemplate, config: { cpconfig: './a.mjs' } }),
+      );
+
+      const stderr = createBuffer();
+      expect(await runCli([], { cwd, stdout: createBuffer(), stderr })).toBe(EXIT_CODES.error);
+      expect(stderr.toString()).toContain(
+        `Circular extends: ${path.join(cwd, 'a.mjs')} -> ${path.join(cwd, 'b.mjs')} -> ${path.join(cwd, 'a.mjs')}`,
+      );
+    });
+  });
+
+  test('syncs every workspace package and aggregates the exit code', async () => {
+    await withTempDir(async (cwd) => {
+      const writeJson = (file: string, value: unknown) =>
+        writeFile(path.join(cwd, file), JSON.stringify(value));
+      await mkdir(path.join(cwd, 'packages', 'api'), { recursive: true });
+      await mkdir(path.join(cwd, 'packages', 'docs'), { recursive: true });
+      await mkdir(path.join(cwd, 'packages', 'broken'), { recursive: true });
+
+      await writeJson('package.json', {
+        name: 'root',
+        workspaces: ['packages/*'],
+        config: { cpconfig: './cpconfig.config.mjs' },
+      });
+      await writeFile(
+        path.join(cwd, 'cpconfig.config.mjs'),
+        `export default async (pkg, { workspaces }) => Object.fromEntries(\n  (await workspaces).map((workspace) => [\n    \`\${workspace.relativeDir}/.nvmrc\`,\n    { contents: '20\\n', gitignore: false },\n  ]),\n);\n`,
+      );
+      await writeJson('packages/api/package.json', {
+        name: 'api',
+        config: { cpconfig: './cpconfig.config.mjs' },
+      });
+      await writeFile(
+        path.join(cwd, 'packages', 'api', 'cpconfig.config.mjs'),
+        `export default { '.env': { contents: 'PORT=1\\n' } };\n`,
+      );
+      await writeJson('packages/docs/package.json', { name: 'docs' });
+      await writeJson('packages/broken/package.json', {
+        name: 'broken',
+        config: { cpconfig: './missing.mjs' },
+      });
+
+      const stdout = createBuffer();
+      const stderr = createBuffer();
+      expect(
+        await runCli(['--workspaces'], { cwd: path.join(cwd, 'packages', 'api'), stdout, stderr }),
+      ).toBe(EXIT_CODES.error);
+
+      await expect(readFile(path.join(cwd, 'packages', 'api', '.env'), 'utf8')).resolves.toBe(
+        'PORT=1\n',
+      );
+      await expect(readFile(path.join(cwd, 'packages', 'docs', '.nvmrc'), 'utf8')).resolves.toBe(
+        '20\n',
+      );
+      expect(stderr.toString()).toContain('cpconfig: packages/broken: Failed to load');
+      expect(stdout.toString()).toContain(
+        '  ok        . (root)\n' +
+          '  ok        packages/api (api)\n' +
+          '  failed    packages/broken (broken)\n' +
+          '  skipped   packages/docs (docs) - no config.cpconfig\n',
+      );
+
+      const json = createBuffer();
+      expect(
+        await runCli(['check', '--workspaces', '--json'], {
+          cwd,
+          stdout: json,
+          stderr: createBuffer(),
+        }),
+      ).toBe(EXIT_CODES.error);
+      const report = JSON.parse(json.toString());
+      expect(report.packages[1]).toMatchObject({
+        dir: 'packages/api',
+        status: 'ok',
+        output: { ok: true },
+      });
+    });
+  });
+
+  test('only looks up workspace packages for factories that read them', async () => {
+    await withTempDir(async (cwd) => {
+      await mkdir(path.join(cwd, 'packages', 'broken'), { recursive: true });
+      await writeFile(path.join(cwd, 'packages', 'broken', 'package.json'), '{ not json');
+      await writeFile(
+        path.join(cwd, 'plain.mjs'),
+        `export default (pkg, { args }) => ({ '.nvmrc': { contents: '20\\n' } });\n`,
+      );
+      await writeFile(
+        path.join(cwd, 'listing.mjs'),
+        `export default async (pkg, { workspaces }) => ({ '.nvmrc': { contents: String((await workspaces).length) } });\n`,
+      );
+      const run = async (cpconfig: string, stderr = createBuffer()) => {
+        await writeFile(
+          path.join(cwd, 'package.json'),
+          JSON.stringify({ name: 'root', workspaces: ['packages/*'], config: { cpconfig } }),
+        );
+        return runCli([], { cwd, stdout: createBuffer(), stderr });
+      };
+
+      expect(await run('./plain.mjs')).toBe(EXIT_CODES.success);
+      await expect(readFile(path.join(cwd, '.nvmrc'), 'utf8')).resolves.toBe('20\n');
+
+      const stderr = createBuffer();
+      expect(await run('./listing.mjs', stderr)).toBe(EXIT_CODES.error);
+      expect(stderr.toString()).toContain('Failed to parse JSON');
+    });
+  });
+
+  test('prints help for each command', async () => {
+    const overview = createBuffer();
+    expect(await runCli(['--help'], { stdout: overview })).toBe(EXIT_CODES.success);
+    expect(overview.toString()).toMatch(/^Usage: cpconfig \[sync\] \[options\]/);
+    expect(overview.toString()).toContain('  explain             ');
+
+    const explain = createBuffer();
+    await runCli(['explain', '--help'], { stdout: explain });
+    expect(explain.toString()).toMatch(/^Usage: cpconfig explain <path> \[options\]/);
+    expect(explain.toString()).not.toContain('--dry-run');
+
+    await expect(runCli(['unknown'])).rejects.toThrowError('Unknown argument: unknown');
+  });
+
   test('emits helpful errors when configuration is missing', async () => {
     await withTempDir(async (cwd) => {
       await writeFile(path.join(cwd, 'package.json'), JSON.stringify(packageTemplate, null, 2));
@@ -312,8 +834,256 @@ describe('cli', () => {
       );
     });
   });
+
+  test('re-syncs in watch mode when the config or a generated file changes', async () => {
+    await withTempDir(async (cwd) => {
+      const modulePath = path.join(cwd, 'cpconfig.config.mjs');
+      await writeFile(
+        modulePath,
+        `export default { files: { 'generated.txt': { contents: 'one' } } };\n`,
+      );
+      await writeFile(
+        path.join(cwd, 'package.json'),
+        JSON.stringify({ ...packageTemplate, config: { cpconfig: './cpconfig.config.mjs' } }),
+      );
+
+      const generatedPath = path.join(cwd, 'generated.txt');
+      const controller = new AbortController();
+      const stdout = createBuffer();
+      const stderr = createBuffer();
+      const running = runCli(['--watch'], { cwd, stdout, stderr, signal: controller.signal });
+
+      try {
+        await waitFor(() => stdout.toString().includes('watching'));
+        await expect(readFile(generatedPath, 'utf8')).resolves.toBe('one');
+
+        await writeFile(
+          modulePath,
+          `export default { files: { 'generated.txt': { contents: 'two' } } };\n`,
+        );
+        await waitFor(async () => (await readFile(generatedPath, 'utf8')) === 'two');
+
+        await rm(generatedPath);
+        await waitFor(
+          async () => (await readFile(generatedPath, 'utf8').catch(() => '')) === 'two',
+        );
+      } finally {
+        controller.abort();
+      }
+
+      await expect(running).resolves.toBe(0);
+      expect(stderr.toString()).toBe('');
+      expect(stdout.toString()).toMatch(
+        /watching[\s\S]*updated +generated\.txt[\s\S]*created +generated\.txt/,
+      );
+    });
+  });
+
+  test('renders templates next to the config module and re-renders them in watch mode', async () => {
+    await withTempDir(async (cwd) => {
+      await mkdir(path.join(cwd, 'config'));
+      await writeFile(
+        path.join(cwd, 'config', 'cpconfig.config.mjs'),
+        `export default { files: { Dockerfile: { template: './Dockerfile.tpl', variables: { node: 20 } } } };\n`,
+      );
+      const templatePath = path.join(cwd, 'config', 'Dockerfile.tpl');
+      await writeFile(templatePath, 'FROM node:{{ node }}\nLABEL name={{ pkg.name }}\n');
+      await writeFile(
+        path.join(cwd, 'package.json'),
+        JSON.stringify({
+          ...packageTemplate,
+          config: { cpconfig: './config/cpconfig.config.mjs' },
+        }),
+      );
+
+      const explained = createBuffer();
+      await expect(
+        runCli(['explain', 'Dockerfile'], { cwd, stdout: explained, stderr: createBuffer() }),
+      ).resolves.toBe(0);
+      expect(explained.toString()).toContain(`input:       template (${templatePath})`);
+
+      const dockerfilePath = path.join(cwd, 'Dockerfile');
+      const controller = new AbortController();
+      const stdout = createBuffer();
+      const stderr = createBuffer();
+      const running = runCli(['--watch'], { cwd, stdout, stderr, signal: controller.signal });
+
+      try {
+        await waitFor(() => stdout.toString().includes('watching'));
+        await expect(readFile(dockerfilePath, 'utf8')).resolves.toBe(
+          'FROM node:20\nLABEL name=cpconfig-fixture\n',
+        );
+
+        await writeFile(templatePath, 'FROM node:{{ node }}-alpine\n');
+        await waitFor(
+          async () => (await readFile(dockerfilePath, 'utf8')) === 'FROM node:20-alpine\n',
+        );
+
+        await writeFile(templatePath, 'FROM node:{{ missing }}\n');
+        await waitFor(() => stderr.toString().includes('Missing variable "missing"'));
+      } finally {
+        controller.abort();
+      }
+
+      await expect(running).resolves.toBe(0);
+      expect(stderr.toString()).toContain(`in template "${templatePath}" at line 1`);
+    });
+  });
+
+  test('copies files relative to the preset declaring them', async () => {
+    await withTempDir(async (cwd) => {
+      const presetDir = path.join(cwd, 'preset');
+      await mkdir(path.join(presetDir, 'snippets'), { recursive: true });
+      await writeFile(path.join(presetDir, 'snippets', 'a.code-snippets'), '{}\n');
+      await writeFile(
+        path.join(presetDir, 'index.mjs'),
+        `export default { files: { '.vscode/snippets': { copy: './snippets', gitignore: 'directory' } } };\n`,
+      );
+      await writeFile(
+        path.join(cwd, 'cpconfig.config.mjs'),
+        `export default { extends: './preset/index.mjs', files: {} };\n`,
+      );
+      await writeFile(
+        path.join(cwd, 'package.json'),
+        JSON.stringify({ ...packageTemplate, config: { cpconfig: './cpconfig.config.mjs' } }),
+      );
+
+      await expect(
+        runCli([], { cwd, stdout: createBuffer(), stderr: createBuffer() }),
+      ).resolves.toBe(0);
+      await expect(
+        readFile(path.join(cwd, '.vscode/snippets/a.code-snippets'), 'utf8'),
+      ).resolves.toBe('{}\n');
+      await expect(readFile(path.join(cwd, '.gitignore'), 'utf8')).resolves.toContain(
+        '/.vscode/snippets/\n',
+      );
+
+      const stdout = createBuffer();
+      await runCli(['list', '--json'], { cwd, stdout, stderr: createBuffer() });
+      expect(JSON.parse(stdout.toString())).toMatchObject([
+        {
+          path: '.vscode/snippets/a.code-snippets',
+          input: 'copy',
+          copy: path.join(presetDir, 'snippets', 'a.code-snippets'),
+          source: path.join(presetDir, 'index.mjs'),
+        },
+      ]);
+    });
+  });
+
+  test('links files relative to the preset declaring them', async () => {
+    await withTempDir(async (cwd) => {
+      const presetDir = path.join(cwd, 'preset');
+      await mkdir(presetDir);
+      await writeFile(path.join(presetDir, '.editorconfig'), 'root = true\n');
+      await writeFile(
+        path.join(presetDir, 'index.mjs'),
+        `export default { files: { '.editorconfig': { symlink: './.editorconfig' } } };\n`,
+      );
+      await writeFile(
+        path.join(cwd, 'package.json'),
+        JSON.stringify({ ...packageTemplate, config: { cpconfig: './preset/index.mjs' } }),
+      );
+
+      await expect(
+        runCli([], { cwd, stdout: createBuffer(), stderr: createBuffer() }),
+      ).resolves.toBe(0);
+      await expect(readlink(path.join(cwd, '.editorconfig'))).resolves.toBe(
+        path.join('preset', '.editorconfig'),
+      );
+
+      const explain = createBuffer();
+      await runCli(['explain', '.editorconfig'], { cwd, stdout: explain, stderr: createBuffer() });
+      expect(explain.toString()).toContain(
+        `input:       symlink (${path.join(presetDir, '.editorconfig')})`,
+      );
+    });
+  });
+
+  test('passes --profile to factories and when predicates', async () => {
+    await withTempDir(async (cwd) => {
+      await writeFile(
+        path.join(cwd, 'cpconfig.config.mjs'),
+        `export default (config, { profile }) => ({ files: {\n` +
+          `  'profile.txt': { contents: String(profile) },\n` +
+          `  '.npmrc': { contents: 'ci=true\\n', when: (context) => context.profile === 'ci' },\n` +
+          `} });\n`,
+      );
+      await writeFile(
+        path.join(cwd, 'package.json'),
+        JSON.stringify({ ...packageTemplate, config: { cpconfig: './cpconfig.config.mjs' } }),
+      );
+
+      const stdout = createBuffer();
+      await expect(runCli(['--json'], { cwd, stdout, stderr: createBuffer() })).resolves.toBe(0);
+      expect(JSON.parse(stdout.toString()).files).toMatchObject([
+        { path: 'profile.txt', action: 'created' },
+        { path: '.npmrc', action: 'skipped-condition' },
+      ]);
+      await expect(readFile(path.join(cwd, 'profile.txt'), 'utf8')).resolves.toBe('undefined');
+
+      await expect(
+        runCli(['--profile', 'ci'], { cwd, stdout: createBuffer(), stderr: createBuffer() }),
+      ).resolves.toBe(0);
+      await expect(readFile(path.join(cwd, 'profile.txt'), 'utf8')).resolves.toBe('ci');
+      await expect(readFile(path.join(cwd, '.npmrc'), 'utf8')).resolves.toBe('ci=true\n');
+    });
+  });
+
+  test('prints --json output on CI and keeps the summary quiet', async () => {
+    await withTempDir(async (cwd) => {
+      await writeFile(
+        path.join(cwd, 'cpconfig.config.mjs'),
+        `export default { files: { 'a.txt': { contents: 'a' } } };\n`,
+      );
+      await writeFile(
+        path.join(cwd, 'package.json'),
+        JSON.stringify({ ...packageTemplate, config: { cpconfig: './cpconfig.config.mjs' } }),
+      );
+
+      process.env.CI = '1';
+      try {
+        const json = createBuffer();
+        await expect(
+          runCli(['--json'], { cwd, stdout: json, stderr: createBuffer() }),
+        ).resolves.toBe(0);
+        expect(JSON.parse(json.toString()).files).toMatchObject([
+          { path: 'a.txt', action: 'created' },
+        ]);
+
+        const summary = createBuffer();
+        await runCli([], { cwd, stdout: summary, stderr: createBuffer() });
+        expect(summary.toString()).toBe('');
+      } finally {
+        delete process.env.CI;
+      }
+    });
+  });
+
+  test('rejects --watch outside of sync', async () => {
+    await withTempDir(async (cwd) => {
+      await writeFile(path.join(cwd, 'package.json'), JSON.stringify(packageTemplate));
+      const stderr = createBuffer();
+
+      const exitCode = await runCli(['check', '--watch'], { cwd, stdout: createBuffer(), stderr });
+
+      expect(exitCode).toBe(1);
+      expect(stderr.toString()).toContain('--watch cannot be used with the check command');
+    });
+  });
 });
 
+async function waitFor(condition: () => boolean | Promise<boolean>, timeoutMs = 3000) {
+  const deadline = Date.now() + timeoutMs;
+
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
 async function linkLocalModule(cwd: string, moduleName: string): Promise<void> {
   const source = path.join(process.cwd(), 'node_modules', moduleName);
   const destinationDir = path.join(cwd, 'node_modules');
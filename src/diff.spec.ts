@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'vitest';
+import { colorizeDiff, createUnifiedDiff, diffLines } from './diff.js';
+
+describe('diffLines', () => {
+  test('produces a minimal edit script', () => {
+    expect(diffLines(['a', 'b', 'c'], ['a', 'x', 'c', 'd'])).toEqual([
+      { type: 'equal', line: 'a' },
+      { type: 'delete', line: 'b' },
+      { type: 'insert', line: 'x' },
+      { type: 'equal', line: 'c' },
+      { type: 'insert', line: 'd' },
+    ]);
+  });
+
+  test('handles empty inputs', () => {
+    expect(diffLines([], [])).toEqual([]);
+    expect(diffLines([], ['a'])).toEqual([{ type: 'insert', line: 'a' }]);
+    expect(diffLines(['a'], [])).toEqual([{ type: 'delete', line: 'a' }]);
+  });
+
+  test('diffs large rewritten inputs', () => {
+    const before = Array.from({ length: 5000 }, (_, index) => `old ${index}\n`);
+    const after = Array.from({ length: 5000 }, (_, index) =>
+      index % 10 === 0 ? before[index] : `new ${index}\n`,
+    );
+
+    const operations = diffLines(before, after);
+
+    expect(operations.filter((operation) => operation.type === 'equal')).toHaveLength(500);
+    expect(
+      operations.filter((operation) => operation.type !== 'insert').map(({ line }) => line),
+    ).toEqual(before);
+    expect(
+      operations.filter((operation) => operation.type !== 'delete').map(({ line }) => line),
+    ).toEqual(after);
+  });
+});
+
+describe('createUnifiedDiff', () => {
+  test('returns an empty string when contents match', () => {
+    expect(createUnifiedDiff('same\n', 'same\n', { oldPath: 'a/x', newPath: 'b/x' })).toBe('');
+  });
+
+  test('renders hunks with surrounding context', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'].join('\n') + '\n';
+    const after = ['1', '2', '3', '4', 'five', '6', '7', '8', '9', '10'].join('\n') + '\n';
+
+    expect(createUnifiedDiff(before, after, { oldPath: 'a/n.txt', newPath: 'b/n.txt' })).toBe(
+      [
+        '--- a/n.txt',
+        '+++ b/n.txt',
+        '@@ -2,7 +2,7 @@',
+        ' 2',
+        ' 3',
+        ' 4',
+        '-5',
+        '+five',
+        ' 6',
+        ' 7',
+        ' 8',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('uses /dev/null for created files and flags missing trailing newlines', () => {
+    expect(createUnifiedDiff(null, 'TOKEN=1', { oldPath: 'a/.env', newPath: 'b/.env' })).toBe(
+      [
+        '--- /dev/null',
+        '+++ b/.env',
+        '@@ -0,0 +1 @@',
+        '+TOKEN=1',
+        '\\ No newline at end of file',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('colorizes additions and removals', () => {
+    const colored = colorizeDiff('@@ -1 +1 @@\n-old\n+new');
+    expect(colored).toContain('\u001b[31m-old');
+    expect(colored).toContain('\u001b[32m+new');
+    expect(colored).toContain('\u001b[36m@@ -1 +1 @@');
+  });
+});
@@ -0,0 +1,319 @@
+// Dependency-free line diffing used to preview changes before they are written.
+
+export type DiffOperation =
+  | { type: 'equal'; line: string }
+  | { type: 'delete'; line: string }
+  | { type: 'insert'; line: string };
+
+export type UnifiedDiffOptions = {
+  /**
+   * Label for the original file. Use null when the file does not exist yet.
+   */
+  oldPath: string | null;
+  /**
+   * Label for the updated file. Use null when the file is being removed.
+   */
+  newPath: string | null;
+  /**
+   * Number of unchanged lines shown around each change. Defaults to 3.
+   */
+  context?: number;
+};
+
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+const ANSI = {
+  bold: '\u001b[1m',
+  red: '\u001b[31m',
+  green: '\u001b[32m',
+  cyan: '\u001b[36m',
+  reset: '\u001b[0m',
+};
+
+/**
+ * Splits text into lines that keep their terminator, so a missing final newline counts as a change.
+ */
+export function splitLinesWithTerminators(text: string): string[] {
+  if (!text) {
+    return [];
+  }
+
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Computes the shortest edit script between two line arrays using Myers' O(ND) algorithm. The
+ * linear-space variant splits each region at its middle snake, so memory stays O(N+M) however far
+ * apart the inputs are.
+ */
+export function diffLines(
+  oldLines: readonly string[],
+  newLines: readonly string[],
+): DiffOperation[] {
+  const operations: DiffOperation[] = [];
+  diffRange(oldLines, 0, oldLines.length, newLines, 0, newLines.length, operations);
+  return operations;
+}
+
+function diffRange(
+  oldLines: readonly string[],
+  oldStart: number,
+  oldEnd: number,
+  newLines: readonly string[],
+  newStart: number,
+  newEnd: number,
+  operations: DiffOperation[],
+): void {
+  while (oldStart < oldEnd && newStart < newEnd && oldLines[oldStart] === newLines[newStart]) {
+    operations.push({ type: 'equal', line: oldLines[oldStart] });
+    oldStart += 1;
+    newStart += 1;
+  }
+
+  let suffix = 0;
+  while (oldEnd > oldStart && newEnd > newStart && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd -= 1;
+    newEnd -= 1;
+    suffix += 1;
+  }
+
+  const split =
+    oldStart < oldEnd && newStart < newEnd
+      ? findMiddleSnake(oldLines, oldStart, oldEnd, newLines, newStart, newEnd)
+      : null;
+
+  if (split) {
+    diffRange(oldLines, oldStart, split.old, newLines, newStart, split.new, operations);
+    diffRange(oldLines, split.old, oldEnd, newLines, split.new, newEnd, operations);
+  } else {
+    // One side is empty, or the regions share no line at all.
+    for (let index = oldStart; index < oldEnd; index += 1) {
+      operations.push({ type: 'delete', line: oldLines[index] });
+    }
+    for (let index = newStart; index < newEnd; index += 1) {
+      operations.push({ type: 'insert', line: newLines[index] });
+    }
+  }
+
+  for (let index = oldEnd; index < oldEnd + suffix; index += 1) {
+    operations.push({ type: 'equal', line: oldLines[index] });
+  }
+}
+
+/**
+ * Runs the search from both ends of the region at once and returns where the two paths meet, or
+ * null when the regions have no line in common. The region must not start or end with equal lines.
+ */
+function findMiddleSnake(
+  oldLines: readonly string[],
+  oldStart: number,
+  oldEnd: number,
+  newLines: readonly string[],
+  newStart: number,
+  newEnd: number,
+): { old: number; new: number } | null {
+  const n = oldEnd - oldStart;
+  const m = newEnd - newStart;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const size = 2 * maxD + 2;
+  // Furthest x reached on each diagonal k = x - y, counted from the start (forward) or the end
+  // (reverse) of the region.
+  const forward = new Int32Array(size).fill(-1);
+  const reverse = new Int32Array(size).fill(-1);
+  forward[offset + 1] = 0;
+  reverse[offset + 1] = 0;
+  const delta = n - m;
+  // With an odd delta the paths can only meet while extending the forward one, else the reverse.
+  const checkForward = delta % 2 !== 0;
+  // Diagonals that ran off the edges of the region are skipped from then on.
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let reverseStart = 0;
+  let reverseEnd = 0;
+
+  for (let d = 0; d < maxD; d += 1) {
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      const index = offset + k;
+      let x =
+        k === -d || (k !== d && forward[index - 1] < forward[index + 1])
+          ? forward[index + 1]
+          : forward[index - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && oldLines[oldStart + x] === newLines[newStart + y]) {
+        x += 1;
+        y += 1;
+      }
+
+      forward[index] = x;
+
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (checkForward) {
+        const reverseIndex = offset + delta - k;
+        if (reverseIndex >= 0 && reverseIndex < size && reverse[reverseIndex] !== -1) {
+          if (x >= n - reverse[reverseIndex]) {
+            return { old: oldStart + x, new: newStart + y };
+          }
+        }
+      }
+    }
+
+    for (let k = -d + reverseStart; k <= d - reverseEnd; k += 2) {
+      const index = offset + k;
+      let x =
+        k === -d || (k !== d && reverse[index - 1] < reverse[index + 1])
+          ? reverse[index + 1]
+          : reverse[index - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && oldLines[oldEnd - x - 1] === newLines[newEnd - y - 1]) {
+        x += 1;
+        y += 1;
+      }
+
+      reverse[index] = x;
+
+      if (x > n) {
+        reverseEnd += 2;
+      } else if (y > m) {
+        reverseStart += 2;
+      } else if (!checkForward) {
+        const forwardIndex = offset + delta - k;
+        if (forwardIndex >= 0 && forwardIndex < size && forward[forwardIndex] !== -1) {
+          const forwardX = forward[forwardIndex];
+          if (forwardX >= n - x) {
+            return { old: oldStart + forwardX, new: newStart + forwardX - (delta - k) };
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Builds a unified diff between two versions of a file. Returns an empty string when they match.
+ */
+export function createUnifiedDiff(
+  oldContents: string | null,
+  newContents: string | null,
+  options: UnifiedDiffOptions,
+): string {
+  if (oldContents === newContents) {
+    return '';
+  }
+
+  const context = options.context ?? 3;
+  const operations = diffLines(
+    splitLinesWithTerminators(oldContents ?? ''),
+    splitLinesWithTerminators(newContents ?? ''),
+  );
+
+  const output = [
+    `--- ${oldContents === null || options.oldPath === null ? '/dev/null' : options.oldPath}`,
+    `+++ ${newContents === null || options.newPath === null ? '/dev/null' : options.newPath}`,
+  ];
+
+  for (const hunk of buildHunks(operations, context)) {
+    output.push(hunk);
+  }
+
+  return `${output.join('\n')}\n`;
+}
+
+/**
+ * Adds ANSI colours to a unified diff for terminal output.
+ */
+export function colorizeDiff(diff: string): string {
+  return diff
+    .split('\n')
+    .map((line) => {
+      if (line.startsWith('---') || line.startsWith('+++')) {
+        return `${ANSI.bold}${line}${ANSI.reset}`;
+      }
+      if (line.startsWith('@@')) {
+        return `${ANSI.cyan}${line}${ANSI.reset}`;
+      }
+      if (line.startsWith('+')) {
+        return `${ANSI.green}${line}${ANSI.reset}`;
+      }
+      if (line.startsWith('-')) {
+        return `${ANSI.red}${line}${ANSI.reset}`;
+      }
+      return line;
+    })
+    .join('\n');
+}
+
+function buildHunks(operations: readonly DiffOperation[], context: number): string[] {
+  const hunks: string[] = [];
+  const changeIndexes = operations
+    .map((operation, index) => (operation.type === 'equal' ? -1 : index))
+    .filter((index) => index !== -1);
+
+  if (changeIndexes.length === 0) {
+    return hunks;
+  }
+
+  // Group changes whose context windows overlap into a single hunk.
+  const groups: Array<{ start: number; end: number }> = [];
+  for (const index of changeIndexes) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(operations.length - 1, index + context);
+    const last = groups[groups.length - 1];
+
+    if (last && start <= last.end + 1) {
+      last.end = end;
+    } else {
+      groups.push({ start, end });
+    }
+  }
+
+  // Track line numbers for the start of each operation.
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const operation of operations) {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (operation.type !== 'insert') {
+      oldLine += 1;
+    }
+    if (operation.type !== 'delete') {
+      newLine += 1;
+    }
+  }
+
+  for (const group of groups) {
+    const slice = operations.slice(group.start, group.end + 1);
+    const oldCount = slice.filter((operation) => operation.type !== 'insert').length;
+    const newCount = slice.filter((operation) => operation.type !== 'delete').length;
+    const oldStart = oldCount === 0 ? oldLineAt[group.start] - 1 : oldLineAt[group.start];
+    const newStart = newCount === 0 ? newLineAt[group.start] - 1 : newLineAt[group.start];
+
+    const lines = [`@@ -${formatRange(oldStart, oldCount)} +${formatRange(newStart, newCount)} @@`];
+
+    for (const operation of slice) {
+      const prefix = operation.type === 'equal' ? ' ' : operation.type === 'delete' ? '-' : '+';
+      if (operation.line.endsWith('\n')) {
+        lines.push(`${prefix}${operation.line.slice(0, -1)}`);
+      } else {
+        lines.push(`${prefix}${operation.line}`, NO_NEWLINE_MARKER);
+      }
+    }
+
+    hunks.push(lines.join('\n'));
+  }
+
+  return hunks;
+}
+
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
@@ -0,0 +1,38 @@
+import { execFileSync } from 'node:child_process';
+import { mkdtemp, realpath, rm, writeFile } from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, expect, test } from 'vitest';
+import { findGitRoot, listTrackedFiles } from './git.js';
+
+describe('git', () => {
+  test('lists which of the given paths are tracked', async () => {
+    await withTempDir(async (dir) => {
+      execFileSync('git', ['init', '-q', dir]);
+      await writeFile(path.join(dir, 'tracked.txt'), 'a');
+      await writeFile(path.join(dir, 'untracked.txt'), 'b');
+      execFileSync('git', ['add', 'tracked.txt'], { cwd: dir });
+
+      await expect(findGitRoot(dir)).resolves.toBe(await realpath(dir));
+      await expect(listTrackedFiles(dir, ['tracked.txt', 'untracked.txt'])).resolves.toEqual([
+        'tracked.txt',
+      ]);
+    });
+  });
+
+  test('returns null outside of a repository', async () => {
+    await withTempDir(async (dir) => {
+      await expect(findGitRoot(dir)).resolves.toBeNull();
+      await expect(listTrackedFiles(dir, ['a.txt'])).resolves.toBeNull();
+    });
+  });
+});
+
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'cpconfig-git-'));
+  try {
+    return await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,64 @@
+import { execFile } from 'child_process';
+import * as path from 'path';
+
+// Thin wrappers around the git binary. Every helper degrades to null when git is not installed, so
+// callers can treat "no git" like "not a repository".
+
+type GitOutput = { stdout: string } | null;
+
+/**
+ * Version reported by `git --version`, or null when git is not installed.
+ */
+export async function readGitVersion(): Promise<string | null> {
+  const output = await runGit(['--version'], process.cwd());
+  return output ? output.stdout.trim().replace(/^git version /, '') : null;
+}
+
+/**
+ * Top-level directory of the work tree containing dir, or null when dir is not inside a git
+ * repository or git is not installed.
+ */
+export async function findGitRoot(dir: string): Promise<string | null> {
+  const output = await runGit(['rev-parse', '--show-toplevel'], dir);
+  return output ? path.resolve(output.stdout.trim()) : null;
+}
+
+/**
+ * Returns the subset of paths, relative to rootDir, that are tracked in the git index. Resolves to
+ * null when rootDir is not inside a git repository or git is not installed.
+ */
+export async function listTrackedFiles(
+  rootDir: string,
+  relativePaths: readonly string[],
+): Promise<string[] | null> {
+  // Listing the whole index keeps the argument list short however many files are declared.
+  const output = await runGit(['ls-files', '-z'], rootDir);
+
+  if (!output) {
+    return null;
+  }
+
+  const tracked = new Set(output.stdout.split('\0').filter(Boolean));
+  return relativePaths.filter((relativePath) => tracked.has(relativePath));
+}
+
+/**
+ * Quotes a path for the git commands suggested in warnings.
+ */
+export function quoteShellArgument(value: string): string {
+  return /^[\w./@+-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function runGit(args: string[], cwd: string): Promise<GitOutput> {
+  return new Promise((resolve) => {
+    execFile(
+      'git',
+      args,
+      { cwd, encoding: 'utf8', maxBuffer: 64 * 1024 * 1024 },
+      (error, stdout) => {
+        // A missing binary (ENOENT) and "not a git repository" (exit 128) both end up here.
+        resolve(error ? null : { stdout });
+      },
+    );
+  });
+}
@@ -0,0 +1,78 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, expect, test } from 'vitest';
+import { findMatchingDirectories, findMatchingFiles, globToRegExp, matchesGlobs } from './glob.js';
+
+describe('globToRegExp', () => {
+  test.each([
+    ['packages/*', 'packages/a', true],
+    ['packages/*', 'packages/a/b', false],
+    ['packages/**', 'packages/a/b', true],
+    ['**/*.json', 'tsconfig.json', true],
+    ['**/*.json', 'config/app.json', true],
+    ['src/**/index.ts', 'src/index.ts', true],
+    ['src/**/index.ts', 'src/a/b/index.ts', true],
+    ['*.{js,ts}', 'index.ts', true],
+    ['*.{js,ts}', 'index.mjs', false],
+    ['file?.txt', 'file1.txt', true],
+    ['file.txt', 'fileatxt', false],
+  ])('%s against %s', (pattern, candidate, expected) => {
+    expect(globToRegExp(pattern).test(candidate)).toBe(expected);
+  });
+});
+
+describe('matchesGlobs', () => {
+  test('lets later negated patterns exclude matches', () => {
+    const patterns = ['packages/*', '!packages/internal', './tools/'];
+
+    expect(matchesGlobs(patterns, 'packages/a')).toBe(true);
+    expect(matchesGlobs(patterns, 'packages/internal')).toBe(false);
+    expect(matchesGlobs(patterns, 'tools')).toBe(true);
+  });
+});
+
+describe('findMatchingDirectories', () => {
+  test('walks only as deep as the patterns require', async () => {
+    const rootDir = await mkdtemp(path.join(os.tmpdir(), 'cpconfig-glob-'));
+    try {
+      for (const directory of [
+        'packages/a/src',
+        'packages/b',
+        'packages/a/node_modules/c',
+        'apps/web/nested/deep',
+      ]) {
+        await mkdir(path.join(rootDir, directory), { recursive: true });
+      }
+
+      await expect(
+        findMatchingDirectories(rootDir, ['packages/*', 'apps/**', '!apps/web/nested']),
+      ).resolves.toEqual(['apps/web', 'apps/web/nested/deep', 'packages/a', 'packages/b']);
+    } finally {
+      await rm(rootDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('findMatchingFiles', () => {
+  test('lists matching files below the root, sorted', async () => {
+    const rootDir = await mkdtemp(path.join(os.tmpdir(), 'cpconfig-glob-'));
+    try {
+      await mkdir(path.join(rootDir, 'nested', 'node_modules'), { recursive: true });
+      for (const file of ['b.json', 'a.md', 'nested/c.json', 'nested/node_modules/d.json']) {
+        await writeFile(path.join(rootDir, file), '');
+      }
+
+      await expect(findMatchingFiles(rootDir, ['**/*.json', '!b.json'])).resolves.toEqual([
+        'nested/c.json',
+      ]);
+      await expect(findMatchingFiles(rootDir, ['**'])).resolves.toEqual([
+        'a.md',
+        'b.json',
+        'nested/c.json',
+      ]);
+    } finally {
+      await rm(rootDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,177 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+// Minimal glob support for workspace patterns and file selections: `*` and `?` stay within a path
+// segment, `**` spans any number of segments, and `{a,b}` picks one of several alternatives.
+// Patterns starting with `!` exclude what earlier patterns matched.
+
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git']);
+
+/**
+ * Compiles a glob into a regular expression matching POSIX-style relative paths.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let index = 0; index < pattern.length; index += 1) {
+    const char = pattern[index];
+
+    if (char === '*') {
+      if (pattern[index + 1] === '*') {
+        const atSegmentStart = index === 0 || pattern[index - 1] === '/';
+        const atSegmentEnd = index + 2 === pattern.length || pattern[index + 2] === '/';
+        index += 1;
+
+        if (atSegmentStart && atSegmentEnd) {
+          // "**/" also matches no directory at all.
+          if (pattern[index + 1] === '/') {
+            index += 1;
+            source += '(?:[^/]*(?:/|$))*';
+          } else {
+            source += '.*';
+          }
+          continue;
+        }
+      }
+
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braceDepth += 1;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth -= 1;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * True when relativePath matches the patterns: at least one positive pattern matches and no later
+ * negated pattern excludes it again.
+ */
+export function matchesGlobs(patterns: readonly string[], relativePath: string): boolean {
+  let matched = false;
+
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith('!');
+    const expression = globToRegExp(normalizePattern(negated ? pattern.slice(1) : pattern));
+
+    if (expression.test(relativePath)) {
+      matched = !negated;
+    }
+  }
+
+  return matched;
+}
+
+/**
+ * Lists directories below rootDir, relative and POSIX-style, that match the patterns.
+ * node_modules and .git are never entered.
+ */
+export async function findMatchingDirectories(
+  rootDir: string,
+  patterns: readonly string[],
+): Promise<string[]> {
+  const positive = patterns.filter((pattern) => !pattern.startsWith('!')).map(normalizePattern);
+  const matches = new Set<string>();
+
+  for (const pattern of positive) {
+    const segments = pattern.split('/');
+    const firstDynamic = segments.findIndex(isDynamicSegment);
+    const staticSegments = firstDynamic === -1 ? segments : segments.slice(0, firstDynamic);
+    const maxDepth = segments.includes('**') ? Infinity : segments.length;
+    const start = staticSegments.join('/');
+
+    for (const directory of await walkDirectories(rootDir, start, maxDepth)) {
+      if (matchesGlobs(patterns, directory)) {
+        matches.add(directory);
+      }
+    }
+  }
+
+  return [...matches].sort();
+}
+
+/**
+ * Lists files below rootDir, relative and POSIX-style and sorted, that match the patterns.
+ * node_modules and .git are never entered.
+ */
+export async function findMatchingFiles(
+  rootDir: string,
+  patterns: readonly string[],
+): Promise<string[]> {
+  const files = await walkFiles(rootDir, '');
+  return files.filter((file) => matchesGlobs(patterns, file)).sort();
+}
+
+function normalizePattern(pattern: string): string {
+  return pattern.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+function isDynamicSegment(segment: string): boolean {
+  return /[*?{]/.test(segment);
+}
+
+async function walkDirectories(
+  rootDir: string,
+  relativeDir: string,
+  maxDepth: number,
+): Promise<string[]> {
+  const depth = relativeDir === '' ? 0 : relativeDir.split('/').length;
+  const found = relativeDir === '' ? [] : [relativeDir];
+
+  if (depth >= maxDepth) {
+    return (await isDirectory(path.join(rootDir, relativeDir))) ? found : [];
+  }
+
+  let entries;
+  try {
+    entries = await fs.readdir(path.join(rootDir, relativeDir), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  for (const entry of entries) {
+    if (!entry.isDirectory() || SKIPPED_DIRECTORIES.has(entry.name)) {
+      continue;
+    }
+
+    const child = relativeDir === '' ? entry.name : `${relativeDir}/${entry.name}`;
+    found.push(...(await walkDirectories(rootDir, child, maxDepth)));
+  }
+
+  return found;
+}
+
+async function walkFiles(rootDir: string, relativeDir: string): Promise<string[]> {
+  const entries = await fs.readdir(path.join(rootDir, relativeDir), { withFileTypes: true });
+  const found: string[] = [];
+
+  for (const entry of entries) {
+    const child = relativeDir === '' ? entry.name : `${relativeDir}/${entry.name}`;
+
+    if (entry.isDirectory() && !SKIPPED_DIRECTORIES.has(entry.name)) {
+      found.push(...(await walkFiles(rootDir, child)));
+    } else if (entry.isFile()) {
+      found.push(child);
+    }
+  }
+
+  return found;
+}
+
+async function isDirectory(directory: string): Promise<boolean> {
+  return fs.stat(directory).then(
+    (stats) => stats.isDirectory(),
+    () => false,
+  );
+}
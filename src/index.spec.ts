@@ -1,8 +1,30 @@
-import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { execFileSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import {
+  chmod,
+  lstat,
+  mkdir,
+  mkdtemp,
+  readdir,
+  readFile,
+  readlink,
+  rm,
+  stat,
+  symlink,
+  writeFile,
+} from 'node:fs/promises';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import { describe, expect, test } from 'vitest';
-import { syncConfigs } from './index.js';
+import {
+  checkConfigs,
+  cleanConfigs,
+  describeConfigs,
+  inspectIgnoreFile,
+  listBackups,
+  syncConfigs,
+  SyncRollbackError,
+} from './index.js';
 
 describe('syncConfigs', () => {
   test('creates files and manages gitignore', async () => {
@@ -90,6 +112,7 @@ describe('syncConfigs', () => {
 
       expect(result.files).toEqual([
         expect.objectContaining({ path: 'config/a.json', action: 'updated' }),
+        expect.objectContaining({ path: 'config/b.json', action: 'deleted', managed: true }),
       ]);
       expect(result.gitignore.updated).toBe(true);
       expect(result.gitignore.added).toEqual([]);
@@ -98,6 +121,121 @@ describe('syncConfigs', () => {
       const gitignore = await readFile(path.join(rootDir, '.gitignore'), 'utf8');
       expect(gitignore).toContain('/config/a.json');
       expect(gitignore).not.toContain('/config/b.json');
+      await expect(readFile(path.join(rootDir, 'config/b.json'), 'utf8')).rejects.toThrowError();
+    });
+  });
+
+  test('records written files in a self-ignoring manifest', async () => {
+    await withTempDir(async (rootDir) => {
+      await syncConfigs(
+        {
+          'b.txt': { contents: '# cpconfig\nb', sentinel: '# cpconfig' },
+          'a.txt': { contents: 'a', gitignore: false },
+        },
+        { rootDir },
+      );
+
+      const manifest = JSON.parse(
+        await readFile(path.join(rootDir, '.cpconfig/state.json'), 'utf8'),
+      ) as { files: Record<string, unknown> };
+      expect(manifest.files).toEqual({
+        'a.txt': { hash: createHash('sha256').update('a').digest('hex') },
+        'b.txt': { sentinel: '# cpconfig', hash: expect.stringMatching(/^[0-9a-f]{64}$/) },
+      });
+      await expect(readFile(path.join(rootDir, '.cpconfig/.gitignore'), 'utf8')).resolves.toBe(
+        '*\n',
+      );
+    });
+  });
+
+  test('prunes files that are no longer declared, including non-gitignored ones', async () => {
+    await withTempDir(async (rootDir) => {
+      await syncConfigs(
+        {
+          'keep.txt': { contents: 'keep' },
+          'visible.txt': { contents: 'visible', gitignore: false },
+        },
+        { rootDir },
+      );
+
+      const preview = await syncConfigs(
+        { 'keep.txt': { contents: 'keep' } },
+        { rootDir, dryRun: true },
+      );
+      expect(preview.files).toEqual([
+        expect.objectContaining({ path: 'keep.txt', action: 'unchanged' }),
+        expect.objectContaining({ path: 'visible.txt', action: 'deleted' }),
+      ]);
+      await expect(readFile(path.join(rootDir, 'visible.txt'), 'utf8')).resolves.toBe('visible');
+
+      await syncConfigs({ 'keep.txt': { contents: 'keep' } }, { rootDir });
+      await expect(readFile(path.join(rootDir, 'visible.txt'), 'utf8')).rejects.toThrowError();
+
+      const rerun = await syncConfigs({ 'keep.txt': { contents: 'keep' } }, { rootDir });
+      expect(rerun.files.map(({ action }) => action)).toEqual(['unchanged']);
+    });
+  });
+
+  test('removes the managed ignore block once every file is pruned', async () => {
+    await withTempDir(async (rootDir) => {
+      await writeFile(path.join(rootDir, '.gitignore'), 'node_modules\n');
+      await syncConfigs({ 'a.txt': { contents: 'a' }, 'b.txt': { contents: 'b' } }, { rootDir });
+
+      const result = await syncConfigs({}, { rootDir });
+
+      expect(result.files.map(({ path: filePath, action }) => [filePath, action])).toEqual([
+        ['a.txt', 'deleted'],
+        ['b.txt', 'deleted'],
+      ]);
+      expect(result.gitignore).toMatchObject({
+        updated: true,
+        removed: ['/a.txt', '/b.txt'],
+        skipped: false,
+      });
+      await expect(readFile(path.join(rootDir, '.gitignore'), 'utf8')).resolves.toBe(
+        'node_modules\n',
+      );
+      await expect(checkConfigs({}, { rootDir })).resolves.toMatchObject({ ok: true });
+    });
+  });
+
+  test('does not prune orphaned files whose sentinel was removed', async () => {
+    await withTempDir(async (rootDir) => {
+      await syncConfigs(
+        { 'owned.txt': { contents: '// cpconfig\nvalue', sentinel: '// cpconfig' } },
+        { rootDir },
+      );
+      await writeFile(path.join(rootDir, 'owned.txt'), 'hand edited\n', 'utf8');
+
+      const result = await syncConfigs({}, { rootDir });
+
+      expect(result.files).toEqual([
+        expect.objectContaining({
+          path: 'owned.txt',
+          action: 'unchanged',
+          managed: false,
+          warning: expect.stringContaining('Not deleting'),
+        }),
+      ]);
+      await expect(readFile(path.join(rootDir, 'owned.txt'), 'utf8')).resolves.toBe(
+        'hand edited\n',
+      );
+    });
+  });
+
+  test('keeps orphaned files when pruning is disabled', async () => {
+    await withTempDir(async (rootDir) => {
+      await syncConfigs({ 'stale.txt': { contents: 'stale' } }, { rootDir });
+
+      const result = await syncConfigs({}, { rootDir, prune: false });
+      expect(result.files).toEqual([]);
+      expect(result.gitignore.updated).toBe(false);
+      await expect(readFile(path.join(rootDir, 'stale.txt'), 'utf8')).resolves.toBe('stale');
+
+      const pruned = await syncConfigs({}, { rootDir });
+      expect(pruned.files).toEqual([
+        expect.objectContaining({ path: 'stale.txt', action: 'deleted' }),
+      ]);
     });
   });
 
@@ -124,6 +262,86 @@ describe('syncConfigs', () => {
     });
   });
 
+  test('includes unified diffs when requested', async () => {
+    await withTempDir(async (rootDir) => {
+      await writeFile(path.join(rootDir, '.gitignore'), 'node_modules\n', 'utf8');
+      await syncConfigs({ 'app.env': { contents: 'A=1\nB=2\n' } }, { rootDir });
+
+      const result = await syncConfigs(
+        {
+          'app.env': { contents: 'A=1\nB=3\n' },
+          'new.env': { contents: 'C=1\n' },
+        },
+        { rootDir, dryRun: true, diff: true },
+      );
+
+      expect(result.files[0]?.diff).toBe(
+        ['--- a/app.env', '+++ b/app.env', '@@ -1,2 +1,2 @@', ' A=1', '-B=2', '+B=3', ''].join(
+          '\n',
+        ),
+      );
+      expect(result.files[1]?.diff).toContain('--- /dev/null\n+++ b/new.env');
+      expect(result.gitignore.diff).toContain('--- a/.gitignore');
+      expect(result.gitignore.diff).toContain('+/new.env');
+
+      const unchanged = await syncConfigs({ 'app.env': { contents: 'A=1\nB=2\n' } }, { rootDir });
+      expect(unchanged.files[0]).not.toHaveProperty('diff');
+    });
+  });
+
+  test.skipIf(process.platform === 'win32')('enforces file modes after creation', async () => {
+    await withTempDir(async (rootDir) => {
+      const files = { 'hooks/pre-commit': { contents: '#!/bin/sh\n', mode: 0o755 } };
+      const hookPath = path.join(rootDir, 'hooks/pre-commit');
+
+      const created = await syncConfigs(files, { rootDir });
+      expect(created.files[0]).toMatchObject({ action: 'created', mode: 0o755 });
+      expect((await stat(hookPath)).mode & 0o777).toBe(0o755);
+
+      await chmod(hookPath, 0o644);
+
+      const preview = await syncConfigs(files, { rootDir, dryRun: true });
+      expect(preview.files[0]).toMatchObject({
+        action: 'mode-changed',
+        mode: 0o755,
+        previousMode: 0o644,
+        skipped: false,
+      });
+      expect((await stat(hookPath)).mode & 0o777).toBe(0o644);
+
+      const fixed = await syncConfigs(files, { rootDir });
+      expect(fixed.files[0]).toMatchObject({ action: 'mode-changed', previousMode: 0o644 });
+      expect((await stat(hookPath)).mode & 0o777).toBe(0o755);
+
+      const rerun = await syncConfigs(files, { rootDir });
+      expect(rerun.files[0]).toMatchObject({
+        action: 'unchanged',
+        mode: 0o755,
+        previousMode: 0o755,
+      });
+    });
+  });
+
+  test.skipIf(process.platform === 'win32')('applies modes when contents change', async () => {
+    await withTempDir(async (rootDir) => {
+      const secretPath = path.join(rootDir, '.credentials');
+      await syncConfigs({ '.credentials': { contents: 'a', mode: 0o600 } }, { rootDir });
+      await chmod(secretPath, 0o644);
+
+      const result = await syncConfigs(
+        { '.credentials': { contents: 'b', mode: 0o600 } },
+        { rootDir },
+      );
+
+      expect(result.files[0]).toMatchObject({
+        action: 'updated',
+        mode: 0o600,
+        previousMode: 0o644,
+      });
+      expect((await stat(secretPath)).mode & 0o777).toBe(0o600);
+    });
+  });
+
   test('respects gitignore: false flag', async () => {
     await withTempDir(async (rootDir) => {
       await syncConfigs(
@@ -140,6 +358,61 @@ describe('syncConfigs', () => {
     });
   });
 
+  test('maintains managed blocks in several ignore files', async () => {
+    await withTempDir(async (rootDir) => {
+      await writeFile(path.join(rootDir, '.dockerignore'), 'node_modules\n', 'utf8');
+
+      const result = await syncConfigs(
+        {
+          '.env': { contents: 'SECRET=1' },
+          'local.json': { contents: '{}', ignoreFiles: ['.gitignore'] },
+          'docs/generated.md': { contents: '# docs', ignoreFiles: ['.prettierignore'] },
+        },
+        { rootDir, ignoreFiles: ['.gitignore', '.dockerignore'] },
+      );
+
+      expect(result.ignoreFiles.map(({ path: target, added }) => [target, added])).toEqual([
+        [path.join(rootDir, '.gitignore'), ['/.env', '/local.json']],
+        [path.join(rootDir, '.dockerignore'), ['/.env']],
+        [path.join(rootDir, '.prettierignore'), ['/docs/generated.md']],
+      ]);
+      expect(result.gitignore).toBe(result.ignoreFiles[0]);
+
+      await expect(readFile(path.join(rootDir, '.dockerignore'), 'utf8')).resolves.toBe(
+        'node_modules\n\n# Managed by cpconfig\n/.env\n',
+      );
+      await expect(readFile(path.join(rootDir, '.prettierignore'), 'utf8')).resolves.toBe(
+        '# Managed by cpconfig\n/docs/generated.md\n',
+      );
+    });
+  });
+
+  test('removes the managed block from ignore files that are no longer configured', async () => {
+    await withTempDir(async (rootDir) => {
+      const files = { 'a.env': { contents: 'A=1' } };
+      await writeFile(path.join(rootDir, '.gitignore'), 'node_modules\n', 'utf8');
+      await syncConfigs(files, { rootDir });
+
+      const moved = await syncConfigs(files, { rootDir, ignoreFiles: ['.dockerignore'] });
+      expect(moved.ignoreFiles.map(({ path: target, updated }) => [target, updated])).toEqual([
+        [path.join(rootDir, '.dockerignore'), true],
+        [path.join(rootDir, '.gitignore'), true],
+      ]);
+      await expect(readFile(path.join(rootDir, '.gitignore'), 'utf8')).resolves.toBe(
+        'node_modules\n',
+      );
+      await expect(readFile(path.join(rootDir, '.dockerignore'), 'utf8')).resolves.toBe(
+        '# Managed by cpconfig\n/a.env\n',
+      );
+
+      await syncConfigs(files, { rootDir });
+      await expect(stat(path.join(rootDir, '.dockerignore'))).rejects.toMatchObject({
+        code: 'ENOENT',
+      });
+      await expect(readFile(path.join(rootDir, '.gitignore'), 'utf8')).resolves.toContain('/a.env');
+    });
+  });
+
   test('rejects paths that escape the configured root directory', async () => {
     await withTempDir(async (rootDir) => {
       await expect(
@@ -197,86 +470,1336 @@ describe('syncConfigs', () => {
     });
   });
 
-  test('requires declared sentinels to appear in contents', async () => {
+  test('resolves async contents factories concurrently', async () => {
+    await withTempDir(async (rootDir) => {
+      const started: string[] = [];
+      let release: () => void = () => undefined;
+      const gate = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+
+      const pending = syncConfigs(
+        {
+          'first.txt': {
+            contents: async () => {
+              started.push('first');
+              await gate;
+              return 'first';
+            },
+          },
+          'second.txt': {
+            contents: async () => {
+              started.push('second');
+              return 'second';
+            },
+          },
+        },
+        { rootDir },
+      );
+
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(started).toEqual(['first', 'second']);
+      release();
+
+      const result = await pending;
+      expect(result.files.map(({ path: filePath, action }) => [filePath, action])).toEqual([
+        ['first.txt', 'created'],
+        ['second.txt', 'created'],
+      ]);
+      await expect(readFile(path.join(rootDir, 'first.txt'), 'utf8')).resolves.toBe('first');
+    });
+  });
+
+  test('attributes async contents failures to the failing path', async () => {
     await withTempDir(async (rootDir) => {
       await expect(
         syncConfigs(
           {
-            'invalid.txt': { contents: 'no sentinel here', sentinel: '__SENTINEL__' },
+            'ok.txt': { contents: async () => 'ok' },
+            'broken.txt': {
+              contents: async () => {
+                throw new Error('template missing');
+              },
+            },
           },
           { rootDir },
         ),
-      ).rejects.toThrow(/must include the configured sentinel/);
+      ).rejects.toThrow('Contents function for "broken.txt" threw an error: template missing');
+
+      await expect(readFile(path.join(rootDir, 'ok.txt'), 'utf8')).rejects.toThrowError();
     });
   });
 
-  test('skips existing files missing the sentinel', async () => {
+  test('serialises structured data using the inferred format', async () => {
     await withTempDir(async (rootDir) => {
-      const filePath = path.join(rootDir, 'config/managed.json');
-      await mkdir(path.dirname(filePath), { recursive: true });
-      await writeFile(filePath, '{"user":true}\n', 'utf8');
-
       const result = await syncConfigs(
         {
-          'config/managed.json': {
-            contents: '__SENTINEL__\n{"managed":true}\n',
-            sentinel: '__SENTINEL__',
-          },
+          'config/settings.json': { data: { z: 1, a: 'first' }, sentinel: 'cpconfig' },
+          'config/.env.local': { data: async () => ({ API_TOKEN: 'abc', DEBUG: true }) },
+          'config/app.conf': { data: { port: 8080 }, format: 'toml' },
         },
         { rootDir },
       );
 
-      expect(result.files).toEqual([
+      expect(result.files.map(({ action }) => action)).toEqual(['created', 'created', 'created']);
+      await expect(readFile(path.join(rootDir, 'config/settings.json'), 'utf8')).resolves.toBe(
+        '{\n  "//": "cpconfig",\n  "a": "first",\n  "z": 1\n}\n',
+      );
+      await expect(readFile(path.join(rootDir, 'config/.env.local'), 'utf8')).resolves.toBe(
+        'API_TOKEN=abc\nDEBUG=true\n',
+      );
+      await expect(readFile(path.join(rootDir, 'config/app.conf'), 'utf8')).resolves.toBe(
+        'port = 8080\n',
+      );
+    });
+  });
+
+  test('requires a format when it cannot be inferred', async () => {
+    await withTempDir(async (rootDir) => {
+      await expect(syncConfigs({ 'notes.txt': { data: { a: 1 } } }, { rootDir })).rejects.toThrow(
+        /Unable to infer a data format for "notes.txt"/,
+      );
+    });
+  });
+
+  test('renders template files with variables, package.json fields and allowed env', async () => {
+    await withTempDir(async (rootDir) => {
+      await mkdir(path.join(rootDir, 'templates'));
+      await writeFile(
+        path.join(rootDir, 'templates', 'Dockerfile.tpl'),
+        'FROM node:{{ node }}\nLABEL version={{ pkg.version }}\nENV MODE={{ env.CPCONFIG_TEST_MODE }}\n',
+      );
+      process.env.CPCONFIG_TEST_MODE = 'test';
+      process.env.CPCONFIG_TEST_SECRET = 'hidden';
+
+      try {
+        const result = await syncConfigs(
+          { Dockerfile: { template: 'templates/Dockerfile.tpl', variables: { node: 20 } } },
+          {
+            rootDir,
+            packageJson: { version: '1.2.3' },
+            templateEnv: ['CPCONFIG_TEST_MODE'],
+          },
+        );
+
+        expect(result.files[0].action).toBe('created');
+        await expect(readFile(path.join(rootDir, 'Dockerfile'), 'utf8')).resolves.toBe(
+          'FROM node:20\nLABEL version=1.2.3\nENV MODE=test\n',
+        );
+
+        await writeFile(path.join(rootDir, 'secret.tpl'), 'ok\n{{ env.CPCONFIG_TEST_SECRET }}\n');
+        await expect(
+          syncConfigs(
+            { '.env': { template: 'secret.tpl' } },
+            { rootDir, templateEnv: ['CPCONFIG_TEST_MODE'] },
+          ),
+        ).rejects.toThrow(
+          /Missing variable "env.CPCONFIG_TEST_SECRET" in template "secret.tpl" at line 2/,
+        );
+      } finally {
+        delete process.env.CPCONFIG_TEST_MODE;
+        delete process.env.CPCONFIG_TEST_SECRET;
+      }
+    });
+  });
+
+  test('rejects template entries that also declare contents or lack the template file', async () => {
+    await withTempDir(async (rootDir) => {
+      await expect(
+        syncConfigs({ a: { template: 'a.tpl', contents: 'a' } }, { rootDir }),
+      ).rejects.toThrow('Config for "a" must not define both contents and template');
+      await expect(syncConfigs({ a: { template: 'a.tpl' } }, { rootDir })).rejects.toThrow(
+        'Failed to read template "a.tpl" for "a"',
+      );
+    });
+  });
+
+  test('manages a delimited block inside a shared file', async () => {
+    await withTempDir(async (rootDir) => {
+      const npmrc = path.join(rootDir, '.npmrc');
+      await writeFile(npmrc, 'save-exact=true\n', 'utf8');
+
+      const inserted = await syncConfigs(
+        { '.npmrc': { strategy: 'block', contents: 'registry=https://one.example\n' } },
+        { rootDir },
+      );
+
+      expect(inserted.files).toEqual([
         expect.objectContaining({
-          path: 'config/managed.json',
-          action: 'unchanged',
-          managed: false,
-          skipped: false,
+          path: '.npmrc',
+          action: 'updated',
+          block: 'inserted',
           gitignored: false,
-          warning: expect.stringContaining('Not overwriting'),
         }),
       ]);
+      expect(inserted.gitignore.skipped).toBe(true);
+      await expect(readFile(npmrc, 'utf8')).resolves.toBe(
+        'save-exact=true\n\n# BEGIN cpconfig managed block\nregistry=https://one.example\n# END cpconfig managed block\n',
+      );
 
-      await expect(readFile(filePath, 'utf8')).resolves.toBe('{"user":true}\n');
-      await expect(readFile(path.join(rootDir, '.gitignore'), 'utf8')).rejects.toThrowError();
+      await writeFile(npmrc, `${await readFile(npmrc, 'utf8')}always-auth=false\n`, 'utf8');
+
+      const updated = await syncConfigs(
+        { '.npmrc': { strategy: 'block', contents: 'registry=https://two.example' } },
+        { rootDir },
+      );
+      expect(updated.files[0]).toMatchObject({ action: 'updated', block: 'updated' });
+      await expect(readFile(npmrc, 'utf8')).resolves.toBe(
+        'save-exact=true\n\n# BEGIN cpconfig managed block\nregistry=https://two.example\n# END cpconfig managed block\nalways-auth=false\n',
+      );
+
+      const unchanged = await syncConfigs(
+        { '.npmrc': { strategy: 'block', contents: 'registry=https://two.example' } },
+        { rootDir },
+      );
+      expect(unchanged.files[0]).toMatchObject({ action: 'unchanged', block: 'unchanged' });
+
+      const removed = await syncConfigs({}, { rootDir });
+      expect(removed.files).toEqual([
+        expect.objectContaining({ path: '.npmrc', action: 'updated', block: 'removed' }),
+      ]);
+      await expect(readFile(npmrc, 'utf8')).resolves.toBe('save-exact=true\n\nalways-auth=false\n');
     });
   });
 
-  test('updates files that preserve the sentinel', async () => {
+  test('creates block files with custom comment syntax and removes them when emptied', async () => {
     await withTempDir(async (rootDir) => {
-      await syncConfigs(
+      const created = await syncConfigs(
         {
-          'sentinel.txt': {
-            contents: '// cpconfig\nvalue=1\n',
-            sentinel: '// cpconfig',
+          'docs/notes.md': {
+            strategy: 'block',
+            comment: ['<!--', '-->'],
+            markers: { begin: 'cpconfig:start', end: 'cpconfig:end' },
+            contents: 'Generated notes',
           },
         },
         { rootDir },
       );
 
+      expect(created.files[0]).toMatchObject({ action: 'created', block: 'inserted' });
+      await expect(readFile(path.join(rootDir, 'docs/notes.md'), 'utf8')).resolves.toBe(
+        '<!-- cpconfig:start -->\nGenerated notes\n<!-- cpconfig:end -->\n',
+      );
+
+      const removed = await syncConfigs({}, { rootDir });
+      expect(removed.files[0]).toMatchObject({ action: 'deleted', block: 'removed' });
+      await expect(readFile(path.join(rootDir, 'docs/notes.md'), 'utf8')).rejects.toThrowError();
+    });
+  });
+
+  test('leaves files with an unterminated block untouched', async () => {
+    await withTempDir(async (rootDir) => {
+      const target = path.join(rootDir, '.bashrc');
+      await writeFile(target, 'export A=1\n# BEGIN cpconfig managed block\nexport B=2\n', 'utf8');
+
       const result = await syncConfigs(
-        {
-          'sentinel.txt': {
-            contents: '// cpconfig\nvalue=2\n',
-            sentinel: '// cpconfig',
-          },
-        },
+        { '.bashrc': { strategy: 'block', contents: 'export B=3' } },
         { rootDir },
       );
 
+      expect(result.files[0]).toMatchObject({
+        action: 'unchanged',
+        managed: false,
+        warning: expect.stringContaining('without a matching'),
+      });
+      await expect(readFile(target, 'utf8')).resolves.toBe(
+        'export A=1\n# BEGIN cpconfig managed block\nexport B=2\n',
+      );
+    });
+  });
+
+  test('deep-merges json into existing files and leaves them when the entry is removed', async () => {
+    await withTempDir(async (rootDir) => {
+      const packageJson = path.join(rootDir, 'package.json');
+      await writeFile(
+        packageJson,
+        '{\n\t"name": "demo",\n\t"scripts": {\n\t\t"test": "vitest"\n\t}\n}\n',
+        'utf8',
+      );
+
+      const files = {
+        'package.json': {
+          strategy: 'json-merge' as const,
+          data: { scripts: { lint: 'eslint .' } },
+        },
+      };
+
+      const result = await syncConfigs(files, { rootDir });
+
       expect(result.files).toEqual([
         expect.objectContaining({
-          path: 'sentinel.txt',
+          path: 'package.json',
           action: 'updated',
-          managed: true,
-          gitignored: true,
+          gitignored: false,
+          changedKeys: ['scripts.lint'],
         }),
       ]);
-      await expect(readFile(path.join(rootDir, 'sentinel.txt'), 'utf8')).resolves.toBe(
-        '// cpconfig\nvalue=2\n',
+      expect(result.gitignore.skipped).toBe(true);
+      await expect(readFile(packageJson, 'utf8')).resolves.toBe(
+        '{\n\t"name": "demo",\n\t"scripts": {\n\t\t"test": "vitest",\n\t\t"lint": "eslint ."\n\t}\n}\n',
+      );
+
+      const rerun = await syncConfigs(files, { rootDir });
+      expect(rerun.files[0]).toMatchObject({ action: 'unchanged', changedKeys: [] });
+
+      const removed = await syncConfigs({}, { rootDir });
+      expect(removed.files).toEqual([]);
+      await expect(readFile(packageJson, 'utf8')).resolves.toContain('"lint": "eslint ."');
+    });
+  });
+
+  test('warns instead of merging into unparseable json', async () => {
+    await withTempDir(async (rootDir) => {
+      await writeFile(path.join(rootDir, 'settings.json'), '{ broken', 'utf8');
+
+      const result = await syncConfigs(
+        { 'settings.json': { strategy: 'json-merge', data: { a: 1 } } },
+        { rootDir },
+      );
+
+      expect(result.files[0]).toMatchObject({
+        action: 'unchanged',
+        managed: false,
+        warning: expect.stringContaining('could not be parsed'),
+      });
+    });
+  });
+
+  test.skipIf(process.platform === 'win32')(
+    'replaces files atomically and keeps their permissions',
+    async () => {
+      await withTempDir(async (rootDir) => {
+        const configPath = path.join(rootDir, 'config/app.json');
+        await syncConfigs({ 'config/app.json': { contents: '{}' } }, { rootDir });
+        await chmod(configPath, 0o640);
+
+        await syncConfigs({ 'config/app.json': { contents: '{"a":1}' } }, { rootDir });
+
+        await expect(readFile(configPath, 'utf8')).resolves.toBe('{"a":1}');
+        expect((await stat(configPath)).mode & 0o777).toBe(0o640);
+        await expect(readdir(path.join(rootDir, 'config'))).resolves.toEqual(['app.json']);
+      });
+    },
+  );
+
+  test('rolls back every written file when a transactional sync fails', async () => {
+    await withTempDir(async (rootDir) => {
+      await writeFile(path.join(rootDir, 'existing.txt'), 'original');
+      // A directory where the ignore file should be makes the final step fail.
+      await mkdir(path.join(rootDir, 'broken-ignore'));
+
+      const error = await syncConfigs(
+        {
+          'existing.txt': { contents: 'replaced' },
+          'nested/dir/new.txt': { contents: 'new' },
+        },
+        { rootDir, gitignorePath: 'broken-ignore', transactional: true },
+      ).catch((reason: unknown) => reason);
+
+      expect(error).toBeInstanceOf(SyncRollbackError);
+      expect(error).toMatchObject({
+        rolledBack: true,
+        restored: expect.arrayContaining(['existing.txt', 'nested/dir/new.txt']),
+        unrestored: [],
+      });
+      await expect(readFile(path.join(rootDir, 'existing.txt'), 'utf8')).resolves.toBe('original');
+      await expect(readdir(rootDir)).resolves.toEqual(
+        expect.not.arrayContaining(['nested', '.cpconfig']),
       );
     });
   });
+
+  test('leaves written files in place when a non-transactional sync fails', async () => {
+    await withTempDir(async (rootDir) => {
+      await mkdir(path.join(rootDir, 'broken-ignore'));
+
+      await expect(
+        syncConfigs(
+          { 'new.txt': { contents: 'new' } },
+          { rootDir, gitignorePath: 'broken-ignore' },
+        ),
+      ).rejects.not.toBeInstanceOf(SyncRollbackError);
+      await expect(readFile(path.join(rootDir, 'new.txt'), 'utf8')).resolves.toBe('new');
+    });
+  });
+
+  test('skips files edited since the last sync when asked to', async () => {
+    await withTempDir(async (rootDir) => {
+      const configPath = path.join(rootDir, 'tuned.conf');
+      const skip = { rootDir, localModifications: 'skip-with-warning' } as const;
+      await syncConfigs({ 'tuned.conf': { contents: 'v1' } }, { rootDir });
+      await writeFile(configPath, 'hand tuned');
+
+      const skipped = await syncConfigs({ 'tuned.conf': { contents: 'v2' } }, skip);
+      expect(skipped.files).toEqual([
+        expect.objectContaining({
+          action: 'unchanged',
+          managed: true,
+          locallyModified: true,
+          warning: expect.stringContaining('modified since cpconfig last wrote it'),
+        }),
+      ]);
+      await expect(readFile(configPath, 'utf8')).resolves.toBe('hand tuned');
+
+      // The edit stays detected on later runs.
+      const again = await syncConfigs({ 'tuned.conf': { contents: 'v2' } }, skip);
+      expect(again.files[0]).toMatchObject({ locallyModified: true, action: 'unchanged' });
+
+      // Without a policy the edit is overwritten.
+      const overwritten = await syncConfigs({ 'tuned.conf': { contents: 'v2' } }, { rootDir });
+      expect(overwritten.files[0]).toMatchObject({ action: 'updated', locallyModified: true });
+      await expect(readFile(configPath, 'utf8')).resolves.toBe('v2');
+
+      const clean = await syncConfigs({ 'tuned.conf': { contents: 'v3' } }, { rootDir });
+      expect(clean.files[0]).toMatchObject({ action: 'updated', locallyModified: false });
+    });
+  });
+
+  test('backs up edited files before overwriting or pruning them', async () => {
+    await withTempDir(async (rootDir) => {
+      await syncConfigs(
+        { 'a.conf': { contents: 'a1' }, 'b.conf': { contents: 'b1' } },
+        { rootDir },
+      );
+      await writeFile(path.join(rootDir, 'a.conf'), 'edited a');
+      await writeFile(path.join(rootDir, 'b.conf'), 'edited b');
+
+      const result = await syncConfigs(
+        { 'a.conf': { contents: 'a2' } },
+        { rootDir, localModifications: 'backup-then-overwrite' },
+      );
+
+      expect(result.files).toEqual([
+        expect.objectContaining({
+          path: 'a.conf',
+          action: 'updated',
+          backupPath: expect.stringMatching(/^\.cpconfig\/backups\/[^/]+\/a\.conf$/),
+        }),
+        expect.objectContaining({
+          path: 'b.conf',
+          action: 'deleted',
+          backupPath: expect.stringMatching(/^\.cpconfig\/backups\/[^/]+\/b\.conf$/),
+        }),
+      ]);
+      await expect(readFile(path.join(rootDir, 'a.conf'), 'utf8')).resolves.toBe('a2');
+      await expect(
+        readFile(path.join(rootDir, result.files[0].backupPath ?? ''), 'utf8'),
+      ).resolves.toBe('edited a');
+      await expect(
+        readFile(path.join(rootDir, result.files[1].backupPath ?? ''), 'utf8'),
+      ).resolves.toBe('edited b');
+    });
+  });
+
+  test('three-way merges local edits with regenerated contents', async () => {
+    await withTempDir(async (rootDir) => {
+      const configPath = path.join(rootDir, 'settings.ini');
+      const entry = (contents: string) => ({
+        'settings.ini': { contents, strategy: 'merge' as const },
+      });
+
+      await syncConfigs(entry('[a]\nx=1\n\n[b]\ny=1\n'), { rootDir });
+      await writeFile(configPath, '[a]\nx=1\nlocal=1\n\n[b]\ny=1\n');
+
+      const merged = await syncConfigs(entry('[a]\nx=1\n\n[b]\ny=2\n'), { rootDir });
+      expect(merged.files[0]).toMatchObject({ action: 'updated' });
+      await expect(readFile(configPath, 'utf8')).resolves.toBe('[a]\nx=1\nlocal=1\n\n[b]\ny=2\n');
+
+      const rerun = await syncConfigs(entry('[a]\nx=1\n\n[b]\ny=2\n'), { rootDir });
+      expect(rerun.files[0]).toMatchObject({ action: 'unchanged' });
+    });
+  });
+
+  test('keeps the merge base of orphans that are not deleted', async () => {
+    await withTempDir(async (rootDir) => {
+      const configPath = path.join(rootDir, 'settings.ini');
+      const baseDir = path.join(rootDir, '.cpconfig/base');
+      const files = {
+        'settings.ini': { contents: '[a]\nx=1\n\n[b]\ny=1\n', strategy: 'merge' as const },
+        'other.ini': { contents: 'z=1\n', strategy: 'merge' as const },
+      };
+
+      await syncConfigs(files, { rootDir });
+      await writeFile(configPath, '[a]\nx=1\nlocal=1\n\n[b]\ny=1\n');
+
+      const pruned = await syncConfigs({}, { rootDir, localModifications: 'skip-with-warning' });
+      expect(pruned.files).toEqual([
+        expect.objectContaining({ path: 'other.ini', action: 'deleted' }),
+        expect.objectContaining({
+          path: 'settings.ini',
+          action: 'unchanged',
+          warning: expect.any(String),
+        }),
+      ]);
+      await expect(stat(path.join(baseDir, 'other.ini'))).rejects.toMatchObject({ code: 'ENOENT' });
+
+      // Declaring the kept file again still merges the local edit.
+      await syncConfigs(
+        { 'settings.ini': { contents: '[a]\nx=1\n\n[b]\ny=2\n', strategy: 'merge' } },
+        { rootDir },
+      );
+      await expect(readFile(configPath, 'utf8')).resolves.toBe('[a]\nx=1\nlocal=1\n\n[b]\ny=2\n');
+    });
+  });
+
+  test('writes conflict markers or refuses when edits overlap', async () => {
+    await withTempDir(async (rootDir) => {
+      const configPath = path.join(rootDir, 'settings.ini');
+      const entry = (contents: string, conflicts: 'markers' | 'refuse') => ({
+        'settings.ini': { contents, strategy: 'merge' as const, conflicts },
+      });
+
+      await syncConfigs(entry('x=1\n', 'refuse'), { rootDir });
+      await writeFile(configPath, 'x=local\n');
+
+      const refused = await syncConfigs(entry('x=2\n', 'refuse'), { rootDir });
+      expect(refused.files[0]).toMatchObject({ action: 'conflict', conflicts: 1 });
+      await expect(readFile(configPath, 'utf8')).resolves.toBe('x=local\n');
+
+      const marked = await syncConfigs(entry('x=2\n', 'markers'), { rootDir });
+      expect(marked.files[0]).toMatchObject({ action: 'conflict', conflicts: 1 });
+      await expect(readFile(configPath, 'utf8')).resolves.toBe(
+        '<<<<<<< local\nx=local\n=======\nx=2\n>>>>>>> cpconfig\n',
+      );
+
+      const unresolved = await syncConfigs(entry('x=2\n', 'markers'), { rootDir });
+      expect(unresolved.files[0]).toMatchObject({ action: 'conflict' });
+
+      await writeFile(configPath, 'x=resolved\n');
+      const resolved = await syncConfigs(entry('x=2\n', 'markers'), { rootDir });
+      expect(resolved.files[0]).toMatchObject({ action: 'unchanged' });
+      await expect(readFile(configPath, 'utf8')).resolves.toBe('x=resolved\n');
+    });
+  });
+
+  test('reports oversized merges as conflicts without touching the file', async () => {
+    await withTempDir(async (rootDir) => {
+      const configPath = path.join(rootDir, 'large.txt');
+      const entry = (contents: string) => ({
+        'large.txt': { contents, strategy: 'merge' as const, conflicts: 'markers' as const },
+      });
+
+      await syncConfigs(entry('a\n'), { rootDir });
+      await writeFile(configPath, 'local\n');
+
+      const result = await syncConfigs(entry('line\n'.repeat(20_001)), { rootDir });
+      expect(result.files[0]).toMatchObject({
+        action: 'conflict',
+        warning: 'Not merging "large.txt" because it has more than 20000 lines.',
+      });
+      await expect(readFile(configPath, 'utf8')).resolves.toBe('local\n');
+    });
+  });
+
+  test('backs up contents cpconfig did not generate when backups are enabled', async () => {
+    await withTempDir(async (rootDir) => {
+      await writeFile(path.join(rootDir, 'handwritten.conf'), 'mine');
+      await writeFile(path.join(rootDir, '.npmrc'), 'registry=x\n');
+
+      const result = await syncConfigs(
+        {
+          'handwritten.conf': { contents: 'generated' },
+          '.npmrc': { contents: 'save-exact=true', strategy: 'block' },
+        },
+        { rootDir, backups: true },
+      );
+
+      expect(result.files.map((file) => file.backupPath)).toEqual([
+        expect.stringMatching(/^\.cpconfig\/backups\/[^/]+\/handwritten\.conf$/),
+        expect.stringMatching(/^\.cpconfig\/backups\/[^/]+\/\.npmrc$/),
+      ]);
+      await expect(
+        readFile(path.join(rootDir, result.files[0].backupPath ?? ''), 'utf8'),
+      ).resolves.toBe('mine');
+
+      // Contents that match what cpconfig wrote last time are not backed up again.
+      const rerun = await syncConfigs(
+        { 'handwritten.conf': { contents: 'generated again' } },
+        { rootDir, backups: true, prune: false },
+      );
+      expect(rerun.files[0].backupPath).toBeUndefined();
+    });
+  });
+
+  test('keeps only the configured number of backup runs', async () => {
+    await withTempDir(async (rootDir) => {
+      for (const timestamp of ['2024-01-01T00-00-00-000Z', '2024-01-02T00-00-00-000Z']) {
+        await mkdir(path.join(rootDir, '.cpconfig/backups', timestamp), { recursive: true });
+        await writeFile(path.join(rootDir, '.cpconfig/backups', timestamp, 'old.conf'), 'old');
+      }
+      await writeFile(path.join(rootDir, 'app.conf'), 'mine');
+
+      await syncConfigs(
+        { 'app.conf': { contents: 'generated' } },
+        { rootDir, backups: { retain: 2 } },
+      );
+
+      const runs = await listBackups(rootDir);
+      expect(runs).toHaveLength(2);
+      expect(runs[0].files).toEqual(['app.conf']);
+      expect(runs[1].timestamp).toBe('2024-01-02T00-00-00-000Z');
+    });
+  });
+
+  test('requires declared sentinels to appear in contents', async () => {
+    await withTempDir(async (rootDir) => {
+      await expect(
+        syncConfigs(
+          {
+            'invalid.txt': { contents: 'no sentinel here', sentinel: '__SENTINEL__' },
+          },
+          { rootDir },
+        ),
+      ).rejects.toThrow(/must include the configured sentinel/);
+    });
+  });
+
+  test('skips existing files missing the sentinel', async () => {
+    await withTempDir(async (rootDir) => {
+      const filePath = path.join(rootDir, 'config/managed.json');
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, '{"user":true}\n', 'utf8');
+
+      const result = await syncConfigs(
+        {
+          'config/managed.json': {
+            contents: '__SENTINEL__\n{"managed":true}\n',
+            sentinel: '__SENTINEL__',
+          },
+        },
+        { rootDir },
+      );
+
+      expect(result.files).toEqual([
+        expect.objectContaining({
+          path: 'config/managed.json',
+          action: 'unchanged',
+          managed: false,
+          skipped: false,
+          gitignored: false,
+          warning: expect.stringContaining('Not overwriting'),
+        }),
+      ]);
+
+      await expect(readFile(filePath, 'utf8')).resolves.toBe('{"user":true}\n');
+      await expect(readFile(path.join(rootDir, '.gitignore'), 'utf8')).rejects.toThrowError();
+    });
+  });
+
+  test('updates files that preserve the sentinel', async () => {
+    await withTempDir(async (rootDir) => {
+      await syncConfigs(
+        {
+          'sentinel.txt': {
+            contents: '// cpconfig\nvalue=1\n',
+            sentinel: '// cpconfig',
+          },
+        },
+        { rootDir },
+      );
+
+      const result = await syncConfigs(
+        {
+          'sentinel.txt': {
+            contents: '// cpconfig\nvalue=2\n',
+            sentinel: '// cpconfig',
+          },
+        },
+        { rootDir },
+      );
+
+      expect(result.files).toEqual([
+        expect.objectContaining({
+          path: 'sentinel.txt',
+          action: 'updated',
+          managed: true,
+          gitignored: true,
+        }),
+      ]);
+      await expect(readFile(path.join(rootDir, 'sentinel.txt'), 'utf8')).resolves.toBe(
+        '// cpconfig\nvalue=2\n',
+      );
+    });
+  });
+});
+
+describe('copied files', () => {
+  test('copies a directory with include and exclude globs, byte for byte', async () => {
+    await withTempDir(async (rootDir) => {
+      const sourceDir = path.join(rootDir, 'preset', 'snippets');
+      await mkdir(path.join(sourceDir, 'nested'), { recursive: true });
+      await writeFile(path.join(sourceDir, 'a.code-snippets'), '{}\n');
+      await writeFile(path.join(sourceDir, 'nested', 'b.code-snippets'), '[]\n');
+      await writeFile(path.join(sourceDir, 'README.md'), 'docs\n');
+      const icon = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe]);
+      await writeFile(path.join(rootDir, 'preset', 'icon.png'), icon);
+
+      const files = {
+        '.vscode/snippets': {
+          copy: 'preset/snippets',
+          include: ['**/*.code-snippets', '*.md'],
+          exclude: ['README.md'],
+        },
+        'assets/icon.png': { copy: 'preset/icon.png' },
+      };
+      const result = await syncConfigs(files, { rootDir });
+
+      expect(result.files.map(({ path: filePath, action }) => [filePath, action])).toEqual([
+        ['.vscode/snippets/a.code-snippets', 'created'],
+        ['.vscode/snippets/nested/b.code-snippets', 'created'],
+        ['assets/icon.png', 'created'],
+      ]);
+      await expect(readFile(path.join(rootDir, 'assets/icon.png'))).resolves.toEqual(icon);
+      await expect(
+        readFile(path.join(rootDir, '.vscode/snippets/nested/b.code-snippets'), 'utf8'),
+      ).resolves.toBe('[]\n');
+      expect(result.gitignore.added).toEqual([
+        '/.vscode/snippets/a.code-snippets',
+        '/.vscode/snippets/nested/b.code-snippets',
+        '/assets/icon.png',
+      ]);
+
+      const rerun = await syncConfigs(files, { rootDir });
+      expect(rerun.files.every(({ action }) => action === 'unchanged')).toBe(true);
+
+      await rm(path.join(sourceDir, 'nested'), { recursive: true });
+      const pruned = await syncConfigs(files, { rootDir });
+      expect(pruned.files.find(({ action }) => action === 'deleted')?.path).toBe(
+        '.vscode/snippets/nested/b.code-snippets',
+      );
+    });
+  });
+
+  test('collapses copied directories into one gitignore entry', async () => {
+    await withTempDir(async (rootDir) => {
+      await mkdir(path.join(rootDir, 'certs-source'));
+      await writeFile(path.join(rootDir, 'certs-source', 'local.pem'), 'cert\n');
+      await writeFile(path.join(rootDir, 'certs-source', 'local-key.pem'), 'key\n');
+
+      const result = await syncConfigs(
+        { certs: { copy: 'certs-source', gitignore: 'directory', mode: 0o600 } },
+        { rootDir },
+      );
+
+      expect(result.files).toHaveLength(2);
+      expect(result.gitignore.added).toEqual(['/certs/']);
+      expect((await stat(path.join(rootDir, 'certs', 'local-key.pem'))).mode & 0o777).toBe(0o600);
+    });
+  });
+
+  test('writes Buffer contents and reports binary diffs', async () => {
+    await withTempDir(async (rootDir) => {
+      const first = Buffer.from([0x00, 0x01, 0x02]);
+      await syncConfigs({ 'data.bin': { contents: first } }, { rootDir });
+
+      const result = await syncConfigs(
+        { 'data.bin': { contents: async () => Buffer.from([0x00, 0x01, 0x03]) } },
+        { rootDir, diff: true },
+      );
+
+      expect(result.files[0]).toMatchObject({
+        action: 'updated',
+        locallyModified: false,
+        diff: 'Binary files a/data.bin and b/data.bin differ\n',
+      });
+      await expect(readFile(path.join(rootDir, 'data.bin'))).resolves.toEqual(
+        Buffer.from([0x00, 0x01, 0x03]),
+      );
+      await expect(
+        syncConfigs({ 'data.bin': { contents: first, strategy: 'block' } }, { rootDir }),
+      ).rejects.toThrow('Config for "data.bin" must use strategy "file" with Buffer contents');
+    });
+  });
+
+  test('rejects copies that overlap other entries or miss their source', async () => {
+    await withTempDir(async (rootDir) => {
+      await mkdir(path.join(rootDir, 'source'));
+      await writeFile(path.join(rootDir, 'source', 'a.txt'), 'a');
+
+      await expect(
+        syncConfigs({ out: { copy: 'source' }, 'out/a.txt': { contents: 'b' } }, { rootDir }),
+      ).rejects.toThrow('Duplicate config file definition for path "out/a.txt"');
+      await expect(syncConfigs({ out: { copy: 'missing' } }, { rootDir })).rejects.toThrow(
+        'Failed to read "missing" to copy it to "out"',
+      );
+    });
+  });
+});
+
+describe('symlinks', () => {
+  test('creates relative links, repairs wrong targets and prunes only the link', async () => {
+    await withTempDir(async (rootDir) => {
+      await mkdir(path.join(rootDir, 'shared'));
+      await writeFile(path.join(rootDir, 'shared', 'eslint.config.js'), 'export default [];\n');
+      const files = { 'packages/app/eslint.config.js': { symlink: 'shared/eslint.config.js' } };
+      const linkPath = path.join(rootDir, 'packages/app/eslint.config.js');
+
+      const created = await syncConfigs(files, { rootDir });
+      expect(created.files[0]).toMatchObject({ action: 'created', managed: true });
+      expect(created.gitignore.added).toEqual(['/packages/app/eslint.config.js']);
+      await expect(readlink(linkPath)).resolves.toBe(
+        path.join('..', '..', 'shared', 'eslint.config.js'),
+      );
+      await expect(readFile(linkPath, 'utf8')).resolves.toBe('export default [];\n');
+
+      const rerun = await syncConfigs(files, { rootDir });
+      expect(rerun.files[0]).toMatchObject({ action: 'unchanged', locallyModified: false });
+
+      await writeFile(path.join(rootDir, 'other.js'), '');
+      await rm(linkPath);
+      await symlink('../../other.js', linkPath);
+      const repointed = await syncConfigs(files, {
+        rootDir,
+        localModifications: 'skip-with-warning',
+      });
+      expect(repointed.files[0]).toMatchObject({
+        action: 'unchanged',
+        locallyModified: true,
+        warning: `Not repointing "packages/app/eslint.config.js" because it was repointed since cpconfig last wrote it.`,
+      });
+
+      const repaired = await syncConfigs(files, { rootDir });
+      expect(repaired.files[0]).toMatchObject({ action: 'updated', locallyModified: true });
+      await expect(readlink(linkPath)).resolves.toBe(
+        path.join('..', '..', 'shared', 'eslint.config.js'),
+      );
+
+      const pruned = await syncConfigs({}, { rootDir });
+      expect(pruned.files[0]).toMatchObject({ action: 'deleted', managed: true });
+      await expect(lstat(linkPath)).rejects.toThrow();
+      await expect(
+        readFile(path.join(rootDir, 'shared', 'eslint.config.js'), 'utf8'),
+      ).resolves.toBe('export default [];\n');
+    });
+  });
+
+  test('replaces regular files only when the sentinel allows it', async () => {
+    await withTempDir(async (rootDir) => {
+      await writeFile(path.join(rootDir, 'target.json'), '{}\n');
+      await writeFile(path.join(rootDir, 'user.json'), '{ "mine": true }\n');
+      await writeFile(path.join(rootDir, 'generated.json'), '{ "//": "@generated" }\n');
+      await mkdir(path.join(rootDir, 'folder'));
+
+      const result = await syncConfigs(
+        {
+          'user.json': { symlink: 'target.json', sentinel: '@generated' },
+          'generated.json': { symlink: 'target.json', sentinel: '@generated' },
+          folder: { symlink: 'target.json' },
+        },
+        { rootDir, backups: true },
+      );
+
+      expect(
+        result.files.map(({ path: filePath, action, managed }) => [filePath, action, managed]),
+      ).toEqual([
+        ['user.json', 'unchanged', false],
+        ['generated.json', 'updated', true],
+        ['folder', 'unchanged', false],
+      ]);
+      expect(result.files[0].warning).toBe(
+        'Not replacing "user.json" with a symlink because the sentinel "@generated" was not found in the existing file.',
+      );
+      expect(result.files[2].warning).toBe(
+        'Not replacing "folder" with a symlink because it is a directory.',
+      );
+      expect(result.files[1].backupPath).toMatch(/^\.cpconfig\/backups\/.+\/generated\.json$/);
+      await expect(readlink(path.join(rootDir, 'generated.json'))).resolves.toBe('target.json');
+      await expect(readFile(path.join(rootDir, 'user.json'), 'utf8')).resolves.toBe(
+        '{ "mine": true }\n',
+      );
+    });
+  });
+
+  test('rejects targets outside the allowed roots or missing on disk', async () => {
+    await withTempDir(async (rootDir) => {
+      const packageDir = path.join(rootDir, 'packages', 'app');
+      await mkdir(packageDir, { recursive: true });
+      await writeFile(path.join(rootDir, 'tsconfig.base.json'), '{}\n');
+      const files = { 'tsconfig.base.json': { symlink: '../../tsconfig.base.json' } };
+
+      await expect(syncConfigs(files, { rootDir: packageDir })).rejects.toThrow(
+        `Symlink target "../../tsconfig.base.json" for "tsconfig.base.json" must reside within the root directory "${packageDir}"`,
+      );
+
+      const result = await syncConfigs(files, { rootDir: packageDir, symlinkRoots: ['../..'] });
+      expect(result.files[0].action).toBe('created');
+
+      await expect(
+        syncConfigs({ 'a.json': { symlink: 'missing.json' } }, { rootDir }),
+      ).rejects.toThrow('Failed to read symlink target "missing.json" for "a.json"');
+      await expect(
+        syncConfigs({ 'a.json': { symlink: 'tsconfig.base.json', mode: 0o600 } }, { rootDir }),
+      ).rejects.toThrow('Config for "a.json" cannot set a mode on a symlink');
+    });
+  });
+
+  test('rolls back a replaced file without writing through the new link', async () => {
+    await withTempDir(async (rootDir) => {
+      await writeFile(path.join(rootDir, 'target.txt'), 'target\n');
+      await writeFile(path.join(rootDir, 'link.txt'), 'original\n');
+      await mkdir(path.join(rootDir, 'broken-ignore'));
+
+      await expect(
+        syncConfigs(
+          { 'link.txt': { symlink: 'target.txt' } },
+          { rootDir, gitignorePath: 'broken-ignore', transactional: true },
+        ),
+      ).rejects.toBeInstanceOf(SyncRollbackError);
+
+      expect((await lstat(path.join(rootDir, 'link.txt'))).isSymbolicLink()).toBe(false);
+      await expect(readFile(path.join(rootDir, 'link.txt'), 'utf8')).resolves.toBe('original\n');
+      await expect(readFile(path.join(rootDir, 'target.txt'), 'utf8')).resolves.toBe('target\n');
+    });
+  });
+
+  test('removes a managed link before writing contents in its place', async () => {
+    await withTempDir(async (rootDir) => {
+      await writeFile(path.join(rootDir, 'target.txt'), 'target\n');
+      await syncConfigs({ 'link.txt': { symlink: 'target.txt' } }, { rootDir });
+
+      const result = await syncConfigs({ 'link.txt': { contents: 'own\n' } }, { rootDir });
+
+      expect(result.files[0].action).toBe('created');
+      expect((await lstat(path.join(rootDir, 'link.txt'))).isSymbolicLink()).toBe(false);
+      await expect(readFile(path.join(rootDir, 'target.txt'), 'utf8')).resolves.toBe('target\n');
+    });
+  });
+});
+
+describe('conditional entries', () => {
+  test('skips entries whose condition is false without resolving their contents', async () => {
+    await withTempDir(async (rootDir) => {
+      const contexts: unknown[] = [];
+      const result = await syncConfigs(
+        {
+          '.npmrc': {
+            when: (context) => {
+              contexts.push(context);
+              return context.profile === 'ci' && 'vitest' in context.dependencies;
+            },
+            contents: 'ci=true\n',
+          },
+          'local.txt': {
+            when: false,
+            contents: () => {
+              throw new Error('should not run');
+            },
+          },
+          'always.txt': { when: true, contents: 'always\n' },
+        },
+        {
+          rootDir,
+          profile: 'dev',
+          packageJson: { devDependencies: { vitest: '^4.0.0' } },
+        },
+      );
+
+      expect(contexts).toEqual([
+        {
+          env: process.env,
+          platform: process.platform,
+          dependencies: { vitest: '^4.0.0' },
+          profile: 'dev',
+        },
+      ]);
+      expect(result.files.map(({ path: filePath, action }) => [filePath, action])).toEqual([
+        ['always.txt', 'created'],
+        ['.npmrc', 'skipped-condition'],
+        ['local.txt', 'skipped-condition'],
+      ]);
+      expect(result.gitignore.added).toEqual(['/always.txt']);
+      await expect(readdir(rootDir)).resolves.toEqual(
+        expect.not.arrayContaining(['.npmrc', 'local.txt']),
+      );
+
+      const check = await checkConfigs({ 'local.txt': { when: false, contents: '' } }, { rootDir });
+      expect(check.issues).toEqual([
+        { path: 'always.txt', reason: 'deleted' },
+        { path: '.gitignore', reason: 'gitignore' },
+      ]);
+    });
+  });
+
+  test('keeps previously generated files unless pruneSkipped is set', async () => {
+    await withTempDir(async (rootDir) => {
+      const files = (when: boolean) => ({ '.env.ci': { when, contents: 'CI=1\n' } });
+      await syncConfigs(files(true), { rootDir });
+
+      const kept = await syncConfigs(files(false), { rootDir });
+      expect(kept.files).toEqual([
+        expect.objectContaining({ action: 'skipped-condition', skipped: true, gitignored: true }),
+      ]);
+      expect(kept.gitignore.updated).toBe(false);
+      await expect(readFile(path.join(rootDir, '.env.ci'), 'utf8')).resolves.toBe('CI=1\n');
+
+      const pruned = await syncConfigs(files(false), { rootDir, pruneSkipped: true });
+      expect(pruned.files).toEqual([
+        expect.objectContaining({ path: '.env.ci', action: 'deleted' }),
+      ]);
+      await expect(readdir(rootDir)).resolves.toEqual(expect.not.arrayContaining(['.env.ci']));
+    });
+  });
+
+  test('rejects conditions that are not booleans or throw', async () => {
+    await withTempDir(async (rootDir) => {
+      await expect(
+        syncConfigs({ 'a.txt': { when: () => 'yes' as never, contents: '' } }, { rootDir }),
+      ).rejects.toThrow('when function for "a.txt" must return a boolean');
+      await expect(
+        syncConfigs(
+          {
+            'a.txt': {
+              when: () => {
+                throw new Error('boom');
+              },
+              contents: '',
+            },
+          },
+          { rootDir },
+        ),
+      ).rejects.toThrow('when function for "a.txt" threw an error: boom');
+    });
+  });
+});
+
+describe('absent entries', () => {
+  test('deletes the path and drops it from the ignore block', async () => {
+    await withTempDir(async (rootDir) => {
+      await syncConfigs({ '.eslintrc.js': { contents: 'module.exports = {};\n' } }, { rootDir });
+      const files = {
+        '.eslintrc.js': { absent: true as const },
+        'eslint.config.mjs': { contents: 'export default [];\n' },
+      };
+
+      const result = await syncConfigs(files, { rootDir, diff: true });
+
+      expect(result.files[0]).toMatchObject({
+        path: '.eslintrc.js',
+        action: 'deleted',
+        managed: true,
+        gitignored: false,
+        locallyModified: false,
+      });
+      expect(result.files[0].diff).toContain('-module.exports = {};');
+      expect(result.gitignore).toMatchObject({
+        added: ['/eslint.config.mjs'],
+        removed: ['/.eslintrc.js'],
+      });
+      await expect(readdir(rootDir)).resolves.toEqual(expect.not.arrayContaining(['.eslintrc.js']));
+
+      const rerun = await syncConfigs(files, { rootDir });
+      expect(rerun.files[0]).toMatchObject({ action: 'unchanged', skipped: true });
+      await expect(checkConfigs(files, { rootDir })).resolves.toMatchObject({ ok: true });
+    });
+  });
+
+  test('drops the last ignore entry when the absent entry is the only one', async () => {
+    await withTempDir(async (rootDir) => {
+      await syncConfigs({ '.eslintrc.js': { contents: 'x' } }, { rootDir });
+      const files = { '.eslintrc.js': { absent: true as const } };
+
+      const result = await syncConfigs(files, { rootDir });
+
+      expect(result.files[0].action).toBe('deleted');
+      expect(result.gitignore).toMatchObject({ updated: true, removed: ['/.eslintrc.js'] });
+      await expect(readdir(rootDir)).resolves.toEqual(expect.not.arrayContaining(['.gitignore']));
+      await expect(checkConfigs(files, { rootDir })).resolves.toMatchObject({ ok: true });
+    });
+  });
+
+  test('only deletes files that contain the sentinel', async () => {
+    await withTempDir(async (rootDir) => {
+      await writeFile(path.join(rootDir, 'tslint.json'), '{ "extends": "mine" }\n');
+      await writeFile(path.join(rootDir, '.babelrc'), '{ "//": "@generated" }\n');
+      const result = await syncConfigs(
+        {
+          'tslint.json': { absent: true, sentinel: '@generated' },
+          '.babelrc': { absent: true, sentinel: '@generated' },
+        },
+        { rootDir, backups: true },
+      );
+
+      expect(result.files).toEqual([
+        expect.objectContaining({
+          path: 'tslint.json',
+          action: 'unchanged',
+          managed: false,
+          warning:
+            'Not deleting "tslint.json" because the sentinel "@generated" was not found in the existing file.',
+        }),
+        expect.objectContaining({
+          path: '.babelrc',
+          action: 'deleted',
+          backupPath: expect.stringMatching(/^\.cpconfig\/backups\/.+\/\.babelrc$/),
+        }),
+      ]);
+      await expect(readdir(rootDir)).resolves.toEqual(expect.arrayContaining(['tslint.json']));
+    });
+  });
+
+  test('removes parent directories left empty when asked to', async () => {
+    await withTempDir(async (rootDir) => {
+      await mkdir(path.join(rootDir, 'config', 'legacy', 'lint'), { recursive: true });
+      await writeFile(path.join(rootDir, 'config', 'keep.json'), '{}\n');
+      await writeFile(path.join(rootDir, 'config', 'legacy', 'lint', '.eslintrc.js'), '');
+      const files = {
+        'config/legacy/lint/.eslintrc.js': { absent: true as const, removeEmptyParents: true },
+      };
+
+      const preview = await syncConfigs(files, { rootDir, dryRun: true });
+      expect(preview.files[0].removedDirectories).toEqual(['config/legacy/lint', 'config/legacy']);
+      await expect(readdir(path.join(rootDir, 'config', 'legacy', 'lint'))).resolves.toEqual([
+        '.eslintrc.js',
+      ]);
+
+      const result = await syncConfigs(files, { rootDir });
+      expect(result.files[0]).toMatchObject({
+        action: 'deleted',
+        removedDirectories: ['config/legacy/lint', 'config/legacy'],
+      });
+      await expect(readdir(path.join(rootDir, 'config'))).resolves.toEqual(['keep.json']);
+    });
+  });
+
+  test('restores removed parent directories when a transactional sync fails', async () => {
+    await withTempDir(async (rootDir) => {
+      const legacyDir = path.join(rootDir, 'legacy', 'lint');
+      await mkdir(legacyDir, { recursive: true });
+      await chmod(path.join(rootDir, 'legacy'), 0o700);
+      await writeFile(path.join(legacyDir, '.eslintrc.js'), 'legacy');
+      await mkdir(path.join(rootDir, 'broken-ignore'));
+
+      await expect(
+        syncConfigs(
+          {
+            'legacy/lint/.eslintrc.js': { absent: true, removeEmptyParents: true },
+            'new.txt': { contents: 'new' },
+          },
+          { rootDir, gitignorePath: 'broken-ignore', transactional: true },
+        ),
+      ).rejects.toBeInstanceOf(SyncRollbackError);
+
+      await expect(readFile(path.join(legacyDir, '.eslintrc.js'), 'utf8')).resolves.toBe('legacy');
+      expect((await stat(path.join(rootDir, 'legacy'))).mode & 0o777).toBe(0o700);
+    });
+  });
+
+  test('rejects absent entries combined with other settings', async () => {
+    await withTempDir(async (rootDir) => {
+      await expect(
+        syncConfigs({ 'a.txt': { absent: true, contents: '' } }, { rootDir }),
+      ).rejects.toThrow('Config for "a.txt" must not define both contents and absent');
+      await expect(
+        syncConfigs({ 'a.txt': { absent: true, strategy: 'block' } }, { rootDir }),
+      ).rejects.toThrow('Config for "a.txt" is absent and cannot set a mode or strategy "block"');
+      await expect(
+        syncConfigs({ 'a.txt': { contents: '', removeEmptyParents: true } }, { rootDir }),
+      ).rejects.toThrow('removeEmptyParents for "a.txt" only applies to absent entries');
+    });
+  });
+});
+
+describe('checkConfigs', () => {
+  test('reports drift without touching the file system', async () => {
+    await withTempDir(async (rootDir) => {
+      await writeFile(path.join(rootDir, 'guarded.txt'), 'user owned\n', 'utf8');
+
+      const check = await checkConfigs(
+        {
+          'fresh.txt': { contents: 'fresh' },
+          'guarded.txt': { contents: '# cpconfig\n', sentinel: '# cpconfig' },
+        },
+        { rootDir },
+      );
+
+      expect(check.ok).toBe(false);
+      expect(check.issues).toEqual([
+        { path: 'fresh.txt', reason: 'created' },
+        {
+          path: 'guarded.txt',
+          reason: 'warning',
+          message: expect.stringContaining('Not overwriting'),
+        },
+        { path: '.gitignore', reason: 'gitignore' },
+      ]);
+      await expect(readFile(path.join(rootDir, 'fresh.txt'), 'utf8')).rejects.toThrowError();
+    });
+  });
+
+  test('passes once files are in sync', async () => {
+    await withTempDir(async (rootDir) => {
+      const files = { 'synced.txt': { contents: 'synced' } };
+      await syncConfigs(files, { rootDir });
+
+      const check = await checkConfigs(files, { rootDir });
+
+      expect(check.ok).toBe(true);
+      expect(check.issues).toEqual([]);
+    });
+  });
+});
+
+describe('cleanConfigs', () => {
+  test('removes managed files, blocks and the gitignore block', async () => {
+    await withTempDir(async (rootDir) => {
+      await writeFile(path.join(rootDir, '.gitignore'), 'node_modules\n');
+      await writeFile(path.join(rootDir, '.npmrc'), 'registry=x\n');
+      await syncConfigs(
+        {
+          'config/a.json': { contents: '{}' },
+          '.npmrc': { contents: 'save-exact=true', strategy: 'block' },
+        },
+        { rootDir },
+      );
+      await syncConfigs(
+        { 'config/a.json': { contents: '{}' }, 'legacy.txt': { contents: 'old' } },
+        { rootDir, prune: false },
+      );
+
+      const result = await cleanConfigs({ 'config/a.json': { contents: '{}' } }, { rootDir });
+
+      expect(result.files.map(({ path: filePath, action }) => [filePath, action])).toEqual([
+        ['.npmrc', 'updated'],
+        ['config/a.json', 'deleted'],
+        ['legacy.txt', 'deleted'],
+      ]);
+      expect(result.gitignore).toMatchObject({
+        updated: true,
+        removed: ['/config/a.json', '/legacy.txt'],
+      });
+      await expect(readFile(path.join(rootDir, '.gitignore'), 'utf8')).resolves.toBe(
+        'node_modules\n',
+      );
+      await expect(readFile(path.join(rootDir, '.npmrc'), 'utf8')).resolves.toBe('registry=x\n');
+      await expect(readFile(path.join(rootDir, 'legacy.txt'), 'utf8')).rejects.toThrowError();
+    });
+  });
+});
+
+describe('describeConfigs', () => {
+  test('resolves effective settings for each entry', async () => {
+    await withTempDir(async (rootDir) => {
+      const descriptions = await describeConfigs(
+        {
+          'config/app.yml': { data: { a: 1 }, mode: 0o600 },
+          'tsconfig.json': { strategy: 'json-merge', data: { compilerOptions: {} } },
+        },
+        { rootDir, ignoreFiles: ['.gitignore', '.dockerignore'] },
+      );
+
+      expect(descriptions).toEqual([
+        {
+          path: 'config/app.yml',
+          absolutePath: path.join(rootDir, 'config/app.yml'),
+          declaredPath: 'config/app.yml',
+          strategy: 'file',
+          input: 'data',
+          format: 'yaml',
+          gitignored: true,
+          ignoreFiles: ['.gitignore', '.dockerignore'],
+          mode: 0o600,
+        },
+        {
+          path: 'tsconfig.json',
+          absolutePath: path.join(rootDir, 'tsconfig.json'),
+          declaredPath: 'tsconfig.json',
+          strategy: 'json-merge',
+          input: 'data',
+          gitignored: false,
+          ignoreFiles: [],
+          arrays: 'replace',
+        },
+      ]);
+    });
+  });
+});
+
+describe('tracked files', () => {
+  test('warns about gitignored files that git tracks', async () => {
+    await withTempDir(async (rootDir) => {
+      execFileSync('git', ['init', '-q', rootDir]);
+      await writeFile(path.join(rootDir, 'secret.env'), 'TOKEN=1\n');
+      await writeFile(path.join(rootDir, 'docker.env'), 'A=1\n');
+      execFileSync('git', ['add', 'secret.env', 'docker.env'], { cwd: rootDir });
+
+      const files = {
+        'secret.env': { contents: 'TOKEN=2\n' },
+        'docker.env': { contents: 'A=1\n', ignoreFiles: ['.dockerignore'] },
+      };
+      const result = await syncConfigs(files, { rootDir });
+
+      expect(result.files.find((file) => file.path === 'secret.env')).toMatchObject({
+        tracked: true,
+        warning:
+          '"secret.env" is gitignored but tracked by git; run "git rm --cached -- secret.env" to stop tracking it',
+      });
+      expect(result.files.find((file) => file.path === 'docker.env')).not.toHaveProperty('tracked');
+
+      const ignored = await syncConfigs(files, { rootDir, trackedFiles: 'ignore' });
+      expect(ignored.files.every((file) => file.warning === undefined)).toBe(true);
+
+      await expect(syncConfigs(files, { rootDir, trackedFiles: 'fail' })).rejects.toThrowError(
+        'Gitignored files are tracked by git: secret.env. Run "git rm --cached -- secret.env"',
+      );
+    });
+  });
+
+  test('fails before writing anything so a later sync can continue', async () => {
+    await withTempDir(async (rootDir) => {
+      execFileSync('git', ['init', '-q', rootDir]);
+      await syncConfigs({ 'a.txt': { contents: 'v1\n' } }, { rootDir });
+      execFileSync('git', ['add', '-f', 'a.txt'], { cwd: rootDir });
+
+      await expect(
+        syncConfigs(
+          { 'a.txt': { contents: 'v2\n' }, 'b.txt': { contents: 'b\n' } },
+          { rootDir, trackedFiles: 'fail' },
+        ),
+      ).rejects.toThrowError('Gitignored files are tracked by git: a.txt');
+      await expect(readFile(path.join(rootDir, 'a.txt'), 'utf8')).resolves.toBe('v1\n');
+      await expect(readdir(rootDir)).resolves.toEqual(expect.not.arrayContaining(['b.txt']));
+
+      execFileSync('git', ['rm', '-q', '--cached', 'a.txt'], { cwd: rootDir });
+      const result = await syncConfigs(
+        { 'a.txt': { contents: 'v3\n' } },
+        { rootDir, trackedFiles: 'fail' },
+      );
+
+      expect(result.files[0]).toMatchObject({ action: 'updated', locallyModified: false });
+      await expect(readFile(path.join(rootDir, 'a.txt'), 'utf8')).resolves.toBe('v3\n');
+    });
+  });
+});
+
+describe('inspectIgnoreFile', () => {
+  test('reports blocks that cpconfig would not have written', async () => {
+    await withTempDir(async (rootDir) => {
+      const ignorePath = path.join(rootDir, '.gitignore');
+      await writeFile(
+        ignorePath,
+        'dist\n\n# Managed by cpconfig\n/a.env\nb.env\n/a.env\n\n# Managed by cpconfig\n/c.env\n',
+      );
+
+      await expect(inspectIgnoreFile(ignorePath)).resolves.toEqual({
+        path: ignorePath,
+        exists: true,
+        blocks: 2,
+        entries: ['/a.env', 'b.env', '/a.env'],
+        problems: [
+          '"# Managed by cpconfig" appears 2 times; only the first block is maintained',
+          '"b.env" is not written the way cpconfig writes it ("/b.env")',
+          '/a.env is listed more than once',
+        ],
+      });
+
+      await syncConfigs({ 'a.env': { contents: 'A=1' } }, { rootDir, gitignorePath: 'other' });
+      await expect(inspectIgnoreFile(path.join(rootDir, 'other'))).resolves.toMatchObject({
+        blocks: 1,
+        entries: ['/a.env'],
+        problems: [],
+      });
+    });
+  });
 });
 
 async function withTempDir<T>(callback: (rootDir: string) => Promise<T>): Promise<T> {
@@ -1,31 +1,242 @@
-import { promises as fs } from 'fs';
+import { promises as fs, type Stats } from 'fs';
 import * as path from 'path';
+import {
+  formatBlockMarkers,
+  removeBlock,
+  splitLines,
+  trimTrailingEmptyLines,
+  upsertBlock,
+  type BlockChange,
+  type BlockCommentSyntax,
+  type BlockMarkers,
+} from './blocks.js';
+import { backupFile, createBackupTimestamp, pruneBackups, resolveBackupPath } from './backups.js';
+import { createUnifiedDiff } from './diff.js';
+import { findMatchingFiles } from './glob.js';
+import { mergeJsonText, type ArrayMergeMode } from './json-merge.js';
+import { listTrackedFiles, quoteShellArgument } from './git.js';
+import {
+  hasConflictMarkers,
+  MAX_MERGE_LINES,
+  mergeThreeWay,
+  type ThreeWayMergeResult,
+} from './merge.js';
+import { DATA_FORMATS, inferDataFormat, serializeData, type DataFormat } from './serializers.js';
+import { renderTemplate, type TemplateScope } from './template.js';
+import {
+  createManifest,
+  ensureStateDirectory,
+  hashContents,
+  readManifest,
+  resolveBasePath,
+  resolveManifestPath,
+  writeManifest,
+  type ManifestEntry,
+} from './manifest.js';
+import {
+  createFileWriter,
+  readPermissionBits,
+  SyncRollbackError,
+  type FileWriter,
+} from './transaction.js';
+
+export type { BlockChange, BlockCommentSyntax, BlockMarkers } from './blocks.js';
+export type { ArrayMergeMode } from './json-merge.js';
+export type { DataFormat } from './serializers.js';
+export { listBackups, restoreBackup, type BackupRun } from './backups.js';
+export {
+  detectProject,
+  initProject,
+  type ConfigFlavour,
+  type InitOptions,
+  type InitResult,
+  type ProjectDetection,
+} from './init.js';
+export { SyncRollbackError } from './transaction.js';
+export { findWorkspacePackages, findWorkspaceRoot, type WorkspacePackage } from './workspaces.js';
 
 // Marker inserted into the managed .gitignore block.
 const MANAGED_COMMENT = '# Managed by cpconfig';
 
+const DEFAULT_BACKUP_RETENTION = 10;
+
+// Properties that produce a file's contents; an entry declares exactly one of them.
+const CONFIG_INPUTS = ['contents', 'data', 'template', 'copy', 'symlink', 'absent'] as const;
+
+// Bytes inspected when deciding whether contents can be shown as a text diff, as git does.
+const BINARY_SNIFF_LENGTH = 8000;
+
+/**
+ * 'file' owns the whole file, 'block' owns a delimited region inside a file shared with the user,
+ * 'json-merge' deep-merges data into an existing JSON or JSONC document, and 'merge' owns the
+ * whole file but three-way merges local edits with newly generated contents.
+ */
+export type ConfigStrategy = 'file' | 'block' | 'json-merge' | 'merge';
+
+/**
+ * What a merge entry does when local edits and generated changes overlap: write conflict markers
+ * into the file, or leave the file untouched.
+ */
+export type ConflictHandling = 'markers' | 'refuse';
+
+/**
+ * How whole-file entries that were edited since cpconfig last wrote them are handled.
+ */
+export type LocalModificationPolicy = 'overwrite' | 'skip-with-warning' | 'backup-then-overwrite';
+
+const CONFIG_STRATEGIES: readonly ConfigStrategy[] = ['file', 'block', 'json-merge', 'merge'];
+
+export const LOCAL_MODIFICATION_POLICIES: readonly LocalModificationPolicy[] = [
+  'overwrite',
+  'skip-with-warning',
+  'backup-then-overwrite',
+];
+
+/**
+ * What a sync does when git tracks a file that cpconfig lists in a .gitignore block, which makes the
+ * ignore entry ineffective.
+ */
+export type TrackedFilePolicy = 'warn' | 'fail' | 'ignore';
+
+export const TRACKED_FILE_POLICIES: readonly TrackedFilePolicy[] = ['warn', 'fail', 'ignore'];
+
+/**
+ * What a when predicate can base its decision on.
+ */
+export type ConditionContext = {
+  env: NodeJS.ProcessEnv;
+  platform: NodeJS.Platform;
+  /**
+   * Versions of the dependencies, devDependencies and optionalDependencies declared in
+   * SyncOptions.packageJson, keyed by package name.
+   */
+  dependencies: Record<string, string>;
+  /**
+   * SyncOptions.profile, e.g. from the CLI's --profile flag.
+   */
+  profile: string | undefined;
+};
+
 export type ConfigEntry = {
   /**
-   * Desired file contents, or a synchronous factory that returns the desired contents.
+   * Desired file contents, or a factory that returns (or resolves to) the desired contents.
+   * Buffers are written and compared byte for byte, which suits binary files.
+   * Exactly one of contents, data, template, copy, symlink or absent must be provided.
+   */
+  contents?: string | Buffer | (() => string | Buffer | Promise<string | Buffer>);
+  /**
+   * Structured data serialised according to format, or a factory that resolves to it.
+   */
+  data?: unknown;
+  /**
+   * Path of a template file rendered into the contents. Relative paths resolve from rootDir; the
+   * CLI resolves them from the config module declaring the entry. `{{ name }}` placeholders are
+   * filled from variables, `{{ pkg.<field> }}` from SyncOptions.packageJson and `{{ env.<NAME> }}`
+   * from the environment variables listed in SyncOptions.templateEnv.
+   */
+  template?: string;
+  /**
+   * Values for the template's placeholders. The names pkg and env are reserved.
    */
-  contents: string | (() => string);
+  variables?: Record<string, unknown>;
+  /**
+   * File or directory copied byte for byte to the entry's path. A directory is copied with every
+   * file below it, each reported and gitignored on its own. Relative paths resolve from rootDir;
+   * the CLI resolves them from the config module declaring the entry.
+   */
+  copy?: string;
+  /**
+   * Globs, relative to a copied directory, selecting the files to copy. Defaults to every file.
+   */
+  include?: string[];
+  /**
+   * Globs, relative to a copied directory, of files to leave out.
+   */
+  exclude?: string[];
+  /**
+   * Path the entry's path becomes a symbolic link to. The link is written relative to its own
+   * directory and the target must exist within rootDir or SyncOptions.symlinkRoots. Relative paths
+   * resolve from rootDir; the CLI resolves them from the config module declaring the entry.
+   */
+  symlink?: string;
+  /**
+   * Deletes the path instead of writing it, e.g. a legacy config file replaced by another entry.
+   * A sentinel restricts deletion to files containing it. The path is left out of ignore blocks.
+   */
+  absent?: true;
+  /**
+   * For absent entries, also removes the parent directories the deletion leaves empty, up to
+   * rootDir.
+   */
+  removeEmptyParents?: boolean;
+  /**
+   * Serialisation format for data. Inferred from the file extension when omitted.
+   */
+  format?: DataFormat;
   /**
    * Optional sentinel string used to detect files previously generated by cpconfig.
-   * When provided, the contents must include this value.
+   * When provided, the contents must include this value. Entries using data get the sentinel
+   * injected as a comment, or as the reserved "//" key for JSON. Symlink entries only replace a
+   * regular file at their path when it contains the sentinel.
    */
   sentinel?: string;
   /**
-   * When false, the file will not be added to the managed .gitignore block.
+   * When false, the file will not be added to the managed .gitignore block. Block entries are
+   * only gitignored when this is explicitly true. 'directory' lists a copied directory once instead
+   * of every file in it.
+   */
+  gitignore?: boolean | 'directory';
+  /**
+   * Ignore files this entry is listed in, replacing SyncOptions.ignoreFiles for this entry.
+   * Relative paths resolve from rootDir.
    */
-  gitignore?: boolean;
+  ignoreFiles?: string[];
   /**
-   * Optional POSIX file mode applied when creating a new file.
+   * Optional POSIX file mode (e.g. 0o600). Applied when the file is created and corrected on later
+   * syncs whenever the permission bits on disk differ.
    */
   mode?: number;
+  /**
+   * How cpconfig owns the path. Defaults to 'file'.
+   */
+  strategy?: ConfigStrategy;
+  /**
+   * Comment syntax used for block markers, e.g. '#', '//' or ['<!--', '-->']. Defaults to '#'.
+   */
+  comment?: BlockCommentSyntax;
+  /**
+   * Marker text surrounding a managed block. Defaults to "BEGIN/END cpconfig managed block".
+   */
+  markers?: Partial<BlockMarkers>;
+  /**
+   * How json-merge combines arrays: replace them (default), add missing items (union), or append.
+   */
+  arrays?: ArrayMergeMode;
+  /**
+   * How merge entries handle conflicting edits. Defaults to 'markers'.
+   */
+  conflicts?: ConflictHandling;
+  /**
+   * Whether the entry applies. A predicate is called before any contents are resolved. Entries
+   * whose condition is false are reported as 'skipped-condition'; files they generated earlier
+   * stay in place unless SyncOptions.pruneSkipped is set.
+   */
+  when?: boolean | ((context: ConditionContext) => boolean | Promise<boolean>);
 };
 
 export type ConfigMap = Record<string, ConfigEntry>;
 
+/**
+ * Shape of a config module's export as read by the CLI. Presets listed in extends are loaded first,
+ * in order, and the module's own files and options are applied on top. A file set to null removes
+ * an entry inherited from a preset.
+ */
+export type ConfigModule = {
+  extends?: string | string[];
+  files?: Record<string, ConfigEntry | null>;
+  options?: SyncOptions;
+};
+
 export type SyncOptions = {
   /**
    * Root directory where config files are written. Defaults to process.cwd().
@@ -43,9 +254,80 @@ export type SyncOptions = {
    * Custom location for the .gitignore file. Relative paths resolve from rootDir.
    */
   gitignorePath?: string;
+  /**
+   * Ignore files (.gitignore, .dockerignore, .npmignore, ...) that receive a managed block listing
+   * every entry. Relative paths resolve from rootDir. Defaults to [gitignorePath].
+   */
+  ignoreFiles?: string[];
+  /**
+   * Location of the manifest recording which files cpconfig wrote. Relative paths resolve from
+   * rootDir. Defaults to .cpconfig/state.json; set to false to disable tracking entirely.
+   */
+  manifestPath?: string | false;
+  /**
+   * When true (the default), files recorded in the manifest that are no longer declared are deleted.
+   */
+  prune?: boolean;
+  /**
+   * When true, results include a unified diff between the on-disk and desired contents.
+   */
+  diff?: boolean;
+  /**
+   * When true, every file written during the sync is restored if a later step fails, and the sync
+   * rejects with a SyncRollbackError listing the restored paths.
+   */
+  transactional?: boolean;
+  /**
+   * What to do with files whose contents no longer match the hash recorded in the manifest.
+   * Defaults to 'overwrite'.
+   */
+  localModifications?: LocalModificationPolicy;
+  /**
+   * When enabled, the previous contents of files cpconfig did not generate are copied to
+   * .cpconfig/backups/<timestamp>/ before being overwritten or deleted. Only the newest `retain`
+   * sync runs are kept (default 10).
+   */
+  backups?: boolean | { retain?: number };
+  /**
+   * What to do when git tracks a file that cpconfig gitignores: warn on the file's result (the
+   * default), reject the sync before anything is written, or skip the check. The check is skipped
+   * outside of git repositories and when git is not installed.
+   */
+  trackedFiles?: TrackedFilePolicy;
+  /**
+   * package.json fields available to templates as `{{ pkg.<field> }}`. The CLI passes the
+   * package.json its config was loaded from.
+   */
+  packageJson?: Record<string, unknown>;
+  /**
+   * Environment variables templates may read as `{{ env.<NAME> }}`. Variables that are not listed
+   * stay hidden, so secrets in the environment cannot leak into generated files by accident.
+   */
+  templateEnv?: string[];
+  /**
+   * Directories besides rootDir that symlink entries may point into, such as a workspace root
+   * with hoisted node_modules. Relative paths resolve from rootDir.
+   */
+  symlinkRoots?: string[];
+  /**
+   * Active profile passed to when predicates, e.g. 'ci' or a developer's name.
+   */
+  profile?: string;
+  /**
+   * When true, files generated by entries whose when condition is now false are deleted like
+   * pruned files. By default they are left in place and stay tracked and ignored.
+   */
+  pruneSkipped?: boolean;
 };
 
-export type FileAction = 'created' | 'updated' | 'unchanged';
+export type FileAction =
+  | 'created'
+  | 'updated'
+  | 'unchanged'
+  | 'deleted'
+  | 'mode-changed'
+  | 'conflict'
+  | 'skipped-condition';
 
 export type FileSyncResult = {
   /**
@@ -65,7 +347,8 @@ export type FileSyncResult = {
    */
   action: FileAction;
   /**
-   * No write was required because the on-disk contents already matched.
+   * No write was required because the on-disk contents already matched, or because the entry's
+   * when condition is false.
    */
   skipped: boolean;
   /**
@@ -76,6 +359,49 @@ export type FileSyncResult = {
    * Optional warning describing why cpconfig skipped management.
    */
   warning?: string;
+  /**
+   * Unified diff of the change, present when SyncOptions.diff is enabled and the file changed.
+   */
+  diff?: string;
+  /**
+   * What happened to the managed region of a block entry.
+   */
+  block?: BlockChange;
+  /**
+   * Dot-separated key paths a json-merge entry added or changed.
+   */
+  changedKeys?: string[];
+  /**
+   * Permission bits cpconfig enforces, present when the entry declares a mode.
+   */
+  mode?: number;
+  /**
+   * Permission bits found on disk before the sync, present when the entry declares a mode and the
+   * file already existed.
+   */
+  previousMode?: number;
+  /**
+   * True when the file was edited since cpconfig last wrote it. Present for whole-file entries with
+   * a recorded hash.
+   */
+  locallyModified?: boolean;
+  /**
+   * Where the previous contents were copied before being replaced, relative to the root directory.
+   */
+  backupPath?: string;
+  /**
+   * Number of conflicting regions found by a merge entry.
+   */
+  conflicts?: number;
+  /**
+   * Parent directories an absent entry removed because they were left empty, relative to the root
+   * directory.
+   */
+  removedDirectories?: string[];
+  /**
+   * True when git tracks the file even though cpconfig lists it in a .gitignore block.
+   */
+  tracked?: boolean;
 };
 
 export type GitignoreResult = {
@@ -96,9 +422,34 @@ export type GitignoreResult = {
    */
   removed: string[];
   /**
-   * True when there were no entries to manage, so the file was left untouched.
+   * True when there were no entries to manage and no managed block to remove, so the file was left
+   * untouched.
    */
   skipped: boolean;
+  /**
+   * Unified diff of the ignore file, present when SyncOptions.diff is enabled and it changed.
+   */
+  diff?: string;
+};
+
+export type IgnoreFileInspection = {
+  /**
+   * Resolved path to the ignore file that was inspected.
+   */
+  path: string;
+  exists: boolean;
+  /**
+   * Number of "# Managed by cpconfig" headers in the file.
+   */
+  blocks: number;
+  /**
+   * Entries of the first managed block, which is the one syncs maintain.
+   */
+  entries: string[];
+  /**
+   * Reasons the file does not look the way cpconfig writes it. Empty when the block is well-formed.
+   */
+  problems: string[];
 };
 
 export type SyncResult = {
@@ -111,18 +462,159 @@ export type SyncResult = {
    */
   files: FileSyncResult[];
   /**
-   * Status of the managed .gitignore block.
+   * Status of the managed .gitignore block (the first configured ignore file).
    */
   gitignore: GitignoreResult;
+  /**
+   * Status of the managed block in every ignore file that was considered.
+   */
+  ignoreFiles: GitignoreResult[];
+};
+
+export type CheckIssue = {
+  /**
+   * Path relative to the root directory that is out of date.
+   */
+  path: string;
+  /**
+   * The action a sync would perform, 'gitignore' for the managed block, or 'warning' for
+   * files cpconfig refused to manage.
+   */
+  reason: FileAction | 'gitignore' | 'warning';
+  /**
+   * Additional detail, such as the sentinel warning.
+   */
+  message?: string;
+};
+
+export type CheckResult = {
+  /**
+   * True when every declared file and the managed .gitignore block are already up to date.
+   */
+  ok: boolean;
+  /**
+   * Everything that would change (or could not be managed) when running a sync.
+   */
+  issues: CheckIssue[];
+  /**
+   * The underlying dry-run result.
+   */
+  result: SyncResult;
+};
+
+export type ConfigDescription = {
+  /**
+   * Path relative to the root directory.
+   */
+  path: string;
+  /**
+   * Fully resolved file path on disk.
+   */
+  absolutePath: string;
+  strategy: ConfigStrategy;
+  /**
+   * Key of the entry declaring the file. Differs from path for files copied from a directory.
+   */
+  declaredPath: string;
+  /**
+   * Whether the file is produced from contents, serialised data, a rendered template or a copy,
+   * is a symlink, or is deleted.
+   */
+  input: 'contents' | 'data' | 'template' | 'copy' | 'symlink' | 'absent';
+  /**
+   * Absolute path of the template file of template entries.
+   */
+  template?: string;
+  /**
+   * Absolute path of the file a copy entry copies.
+   */
+  copy?: string;
+  /**
+   * Absolute path a symlink entry links to.
+   */
+  symlink?: string;
+  /**
+   * Serialisation format of data entries, explicit or inferred from the file name.
+   */
+  format?: DataFormat;
+  sentinel?: string;
+  /**
+   * True when the path is listed in at least one managed ignore block.
+   */
+  gitignored: boolean;
+  /**
+   * Ignore files listing the path, relative to the root directory.
+   */
+  ignoreFiles: string[];
+  mode?: number;
+  /**
+   * Begin and end lines of a block entry.
+   */
+  markers?: BlockMarkers;
+  arrays?: ArrayMergeMode;
+  conflicts?: ConflictHandling;
 };
 
-type NormalizedConfigFile = {
+/**
+ * A file to write. Text contents are encoded with SyncOptions.encoding; Buffer contents are written
+ * as they are.
+ */
+type NormalizedConfigFile<Contents extends string | Buffer = string> = {
+  /**
+   * Key of the ConfigMap entry the file comes from.
+   */
+  declaredPath: string;
   relativePath: string;
   absolutePath: string;
-  contents: string;
+  contents: Contents;
+  /**
+   * Absolute path of the file a copy entry copied.
+   */
+  copiedFrom?: string;
+  /**
+   * Set for symlink entries, whose contents are the link text.
+   */
+  symlink?: SymlinkTarget;
+  /**
+   * Set for absent entries, which delete the path.
+   */
+  absent?: { removeEmptyParents: boolean };
   gitignoreEntry: string | null;
+  ignoreFiles?: string[];
   mode?: number;
   sentinel?: string;
+  block?: BlockMarkers;
+  merge?: { data: Record<string, unknown>; arrays: ArrayMergeMode };
+  threeWay?: { conflicts: ConflictHandling };
+};
+
+type DeclaredConfigFile = NormalizedConfigFile | NormalizedConfigFile<Buffer>;
+
+type SymlinkTarget = {
+  /**
+   * Absolute path of the link target.
+   */
+  target: string;
+  /**
+   * Kind of link to create on Windows, which distinguishes file and directory links.
+   */
+  type: 'file' | 'dir';
+};
+
+type SyncFileOutcome = {
+  action: FileAction;
+  managed: boolean;
+  warning?: string;
+  diff?: string;
+  block?: BlockChange;
+  changedKeys?: string[];
+  mode?: number;
+  previousMode?: number;
+  locallyModified?: boolean;
+  backupPath?: string;
+  conflicts?: number;
+  removedDirectories?: string[];
+  hash?: string;
 };
 
 /**
@@ -132,217 +624,2109 @@ export async function syncConfigs(
   files: ConfigMap,
   options: SyncOptions = {},
 ): Promise<SyncResult> {
+  const settings = resolveSyncSettings(options);
+  const { rootDir, encoding, gitignorePath, defaultIgnoreFiles, dryRun, diff, writer } = settings;
+  const { manifestPath, backupRetention } = settings;
+
+  const { active, skipped } = await partitionByCondition(files, rootDir, settings);
+  const normalizedFiles = await normalizeFiles(active, rootDir, settings);
+  const previousManifest = manifestPath ? await readManifest(manifestPath, encoding) : null;
+  const nextManifest = createManifest();
+
+  const fileResults: FileSyncResult[] = [];
+  const ignoreResults: GitignoreResult[] = [];
+
+  // Git tracking does not depend on the writes, so a failing check runs before anything is written.
+  if (settings.trackedFiles === 'fail') {
+    await reportTrackedFiles(fileResults, listGitignoredPaths(normalizedFiles, settings), settings);
+  }
+
+  try {
+    const ignoreEntries = new Map<string, string[]>(
+      defaultIgnoreFiles.map((target) => [target, []]),
+    );
+
+    for (const file of normalizedFiles) {
+      const outcome = await syncFile(file, previousManifest?.files[file.relativePath], settings);
+      const { action, managed, warning } = outcome;
+
+      if (managed && file.gitignoreEntry) {
+        for (const target of file.ignoreFiles ?? defaultIgnoreFiles) {
+          const entries = ignoreEntries.get(target) ?? [];
+          entries.push(file.gitignoreEntry);
+          ignoreEntries.set(target, entries);
+        }
+      }
+
+      // Absent entries are only recorded while a locally modified file awaits deletion.
+      if (managed && (!file.absent || outcome.hash)) {
+        nextManifest.files[file.relativePath] = toManifestEntry(file, outcome.hash);
+      }
+
+      fileResults.push({
+        path: file.relativePath,
+        managed,
+        absolutePath: file.absolutePath,
+        action,
+        skipped: action === 'unchanged' && managed,
+        gitignored:
+          managed &&
+          Boolean(file.gitignoreEntry) &&
+          (file.ignoreFiles ?? defaultIgnoreFiles).length > 0,
+        warning,
+        ...(outcome.diff ? { diff: outcome.diff } : {}),
+        ...(outcome.block ? { block: outcome.block } : {}),
+        ...(outcome.changedKeys ? { changedKeys: outcome.changedKeys } : {}),
+        ...(outcome.mode !== undefined ? { mode: outcome.mode } : {}),
+        ...(outcome.previousMode !== undefined ? { previousMode: outcome.previousMode } : {}),
+        ...(outcome.locallyModified !== undefined
+          ? { locallyModified: outcome.locallyModified }
+          : {}),
+        ...(outcome.backupPath ? { backupPath: outcome.backupPath } : {}),
+        ...(outcome.conflicts ? { conflicts: outcome.conflicts } : {}),
+        ...(outcome.removedDirectories ? { removedDirectories: outcome.removedDirectories } : {}),
+      });
+    }
+
+    const declared = new Set(normalizedFiles.map((file) => file.relativePath));
+
+    for (const entry of skipped) {
+      const generated = Object.entries(previousManifest?.files ?? {}).filter(([relativePath]) =>
+        isGeneratedBy(entry, relativePath),
+      );
+      const results: FileSyncResult[] = [];
+      let gitignored = false;
+
+      for (const [relativePath, manifestEntry] of generated) {
+        declared.add(relativePath);
+
+        if (options.pruneSkipped) {
+          const result = await pruneFile(relativePath, manifestEntry, settings);
+          if (result) {
+            results.push(result);
+          }
+          continue;
+        }
+
+        // Files left in place stay tracked and ignored until the condition holds again.
+        nextManifest.files[relativePath] = manifestEntry;
+
+        if (entry.gitignored) {
+          const ignoredPath = entry.ignoreDirectory ? `${entry.relativePath}/` : relativePath;
+          for (const target of entry.ignoreFiles ?? defaultIgnoreFiles) {
+            const entries = ignoreEntries.get(target) ?? [];
+            entries.push(formatGitignoreEntry(ignoredPath));
+            ignoreEntries.set(target, entries);
+            gitignored = true;
+          }
+        }
+      }
+
+      fileResults.push(
+        ...(results.length > 0
+          ? results
+          : [
+              {
+                path: entry.relativePath,
+                managed: true,
+                absolutePath: entry.absolutePath,
+                action: 'skipped-condition' as const,
+                skipped: true,
+                gitignored,
+              },
+            ]),
+      );
+    }
+
+    const retainedPaths: string[] = [];
+
+    if (previousManifest) {
+      const orphans = Object.entries(previousManifest.files).filter(
+        ([relativePath]) => !declared.has(relativePath),
+      );
+
+      if (options.prune === false) {
+        for (const [relativePath, entry] of orphans) {
+          nextManifest.files[relativePath] = entry;
+          retainedPaths.push(relativePath);
+        }
+      } else {
+        for (const [relativePath, entry] of orphans) {
+          const result = await pruneFile(relativePath, entry, settings);
+          if (result) {
+            fileResults.push(result);
+          }
+        }
+      }
+    }
+
+    // Ignore files that are no longer configured lose their block, unless it still lists kept
+    // orphans.
+    for (const target of previousManifest?.ignoreFiles ?? []) {
+      const absoluteTarget = path.resolve(rootDir, target);
+      if (!ignoreEntries.has(absoluteTarget)) {
+        ignoreEntries.set(absoluteTarget, []);
+      }
+    }
+
+    for (const [target, entries] of ignoreEntries) {
+      const result = await syncGitignore({
+        rootDir,
+        gitignorePath: target,
+        entries,
+        encoding,
+        dryRun,
+        diff,
+        writer,
+        retainedPaths,
+      });
+      ignoreResults.push(result);
+
+      if (entries.length > 0 || retainedPaths.length > 0) {
+        nextManifest.ignoreFiles = [
+          ...(nextManifest.ignoreFiles ?? []),
+          normalizeRelativePath(path.relative(rootDir, target)),
+        ];
+      }
+    }
+
+    if (settings.trackedFiles === 'warn') {
+      const managedFiles = normalizedFiles.filter((file) => nextManifest.files[file.relativePath]);
+      await reportTrackedFiles(fileResults, listGitignoredPaths(managedFiles, settings), settings);
+    }
+
+    if (manifestPath && !dryRun) {
+      await writeManifest(manifestPath, nextManifest, { rootDir, encoding, writer });
+    }
+
+    if (backupRetention !== null && !dryRun && fileResults.some((file) => file.backupPath)) {
+      await pruneBackups(rootDir, backupRetention);
+    }
+  } catch (error) {
+    throw settings.transactional ? await rollbackSync(writer, rootDir, error) : error;
+  }
+
+  return {
+    rootDir,
+    files: fileResults,
+    gitignore: ignoreResults[0] ?? skippedGitignoreResult(gitignorePath),
+    ignoreFiles: ignoreResults,
+  };
+}
+
+type SyncSettings = SyncFileOptions & {
+  gitignorePath: string;
+  defaultIgnoreFiles: string[];
+  manifestPath: string | null;
+  backupRetention: number | null;
+  transactional: boolean;
+  trackedFiles: TrackedFilePolicy;
+  templateScope: TemplateScope;
+  symlinkRoots: string[];
+  conditionContext: ConditionContext;
+};
+
+function resolveSyncSettings(options: SyncOptions): SyncSettings {
   const rootDir = path.resolve(options.rootDir ?? process.cwd());
-  const encoding: BufferEncoding = options.encoding ?? 'utf8';
   const gitignorePath = resolveGitignorePath(rootDir, options.gitignorePath);
   const dryRun = options.dryRun ?? false;
+  const transactional = Boolean(options.transactional) && !dryRun;
+  const localModifications = options.localModifications ?? 'overwrite';
+  const trackedFiles = options.trackedFiles ?? 'warn';
+  const backupRetention = options.backups ? resolveBackupRetention(options.backups) : null;
+
+  if (!LOCAL_MODIFICATION_POLICIES.includes(localModifications)) {
+    throw new Error(`Unsupported localModifications policy "${String(localModifications)}"`);
+  }
+
+  if (!TRACKED_FILE_POLICIES.includes(trackedFiles)) {
+    throw new Error(`Unsupported trackedFiles policy "${String(trackedFiles)}"`);
+  }
+
+  if (
+    options.templateEnv !== undefined &&
+    (!Array.isArray(options.templateEnv) ||
+      options.templateEnv.some((name) => typeof name !== 'string' || name.length === 0))
+  ) {
+    throw new Error('templateEnv must be an array of environment variable names');
+  }
+
+  if (
+    options.symlinkRoots !== undefined &&
+    (!Array.isArray(options.symlinkRoots) ||
+      options.symlinkRoots.some((root) => typeof root !== 'string' || root.length === 0))
+  ) {
+    throw new Error('symlinkRoots must be an array of non-empty paths');
+  }
+
+  if (
+    options.profile !== undefined &&
+    (typeof options.profile !== 'string' || options.profile.length === 0)
+  ) {
+    throw new Error('profile must be a non-empty string');
+  }
+
+  return {
+    rootDir,
+    encoding: options.encoding ?? 'utf8',
+    gitignorePath,
+    defaultIgnoreFiles: options.ignoreFiles
+      ? options.ignoreFiles.map((target) => resolveGitignorePath(rootDir, target))
+      : [gitignorePath],
+    dryRun,
+    diff: options.diff ?? false,
+    manifestPath: resolveManifestPath(rootDir, options.manifestPath),
+    writer: createFileWriter({ transactional }),
+    transactional,
+    localModifications,
+    trackedFiles,
+    backups: backupRetention !== null,
+    backupRetention,
+    backupTimestamp: createBackupTimestamp(),
+    templateScope: {
+      pkg: options.packageJson ?? {},
+      env: Object.fromEntries(
+        (options.templateEnv ?? [])
+          .filter((name) => process.env[name] !== undefined)
+          .map((name) => [name, process.env[name]]),
+      ),
+    },
+    symlinkRoots: (options.symlinkRoots ?? []).map((root) => path.resolve(rootDir, root)),
+    conditionContext: {
+      env: process.env,
+      platform: process.platform,
+      dependencies: readDeclaredDependencies(options.packageJson ?? {}),
+      profile: options.profile,
+    },
+  };
+}
+
+function readDeclaredDependencies(packageJson: Record<string, unknown>): Record<string, string> {
+  const dependencies: Record<string, string> = {};
+
+  for (const field of ['optionalDependencies', 'devDependencies', 'dependencies']) {
+    const declared = packageJson[field];
+
+    if (isPlainObject(declared)) {
+      for (const [name, version] of Object.entries(declared)) {
+        if (typeof version === 'string') {
+          dependencies[name] = version;
+        }
+      }
+    }
+  }
+
+  return dependencies;
+}
+
+function resolveBackupRetention(backups: true | { retain?: number }): number {
+  const retain = backups === true ? undefined : backups.retain;
+
+  if (retain === undefined) {
+    return DEFAULT_BACKUP_RETENTION;
+  }
+
+  if (!Number.isInteger(retain) || retain < 1) {
+    throw new Error(`Backup retention must be a positive integer, received ${String(retain)}`);
+  }
+
+  return retain;
+}
+
+/**
+ * Flags gitignored files that git still tracks, since ignore rules do not apply to tracked files.
+ */
+async function reportTrackedFiles(
+  fileResults: FileSyncResult[],
+  gitignored: string[],
+  settings: SyncSettings,
+): Promise<void> {
+  if (gitignored.length === 0) {
+    return;
+  }
+
+  const tracked = await listTrackedFiles(settings.rootDir, gitignored);
+
+  if (!tracked || tracked.length === 0) {
+    return;
+  }
+
+  const command = `git rm --cached -- ${tracked.map(quoteShellArgument).join(' ')}`;
+
+  if (settings.trackedFiles === 'fail') {
+    throw new Error(
+      `Gitignored files are tracked by git: ${tracked.join(', ')}. Run "${command}" to stop tracking them.`,
+    );
+  }
+
+  for (const file of fileResults) {
+    if (tracked.includes(file.path)) {
+      const warning = `"${file.path}" is gitignored but tracked by git; run "git rm --cached -- ${quoteShellArgument(file.path)}" to stop tracking it`;
+      file.tracked = true;
+      file.warning = file.warning ? `${file.warning}; ${warning}` : warning;
+    }
+  }
+}
+
+function listGitignoredPaths(files: DeclaredConfigFile[], settings: SyncSettings): string[] {
+  return files
+    .filter(
+      (file) =>
+        file.gitignoreEntry &&
+        (file.ignoreFiles ?? settings.defaultIgnoreFiles).some((target) =>
+          isGitignoreFile(target, settings.gitignorePath),
+        ),
+    )
+    .map((file) => file.relativePath);
+}
+
+function isGitignoreFile(target: string, gitignorePath: string): boolean {
+  return target === gitignorePath || path.basename(target) === '.gitignore';
+}
+
+async function rollbackSync(
+  writer: FileWriter,
+  rootDir: string,
+  cause: unknown,
+): Promise<SyncRollbackError> {
+  const report = await writer.rollback();
+  const toRelative = (filePath: string) => normalizeRelativePath(path.relative(rootDir, filePath));
+  const restored = report.restored.map(toRelative);
+  const unrestored = report.failed.map((failure) => toRelative(failure.path));
+  const reason = cause instanceof Error ? cause.message : String(cause);
+
+  const message =
+    unrestored.length === 0
+      ? `Sync failed and was rolled back (${restored.length} file(s) restored): ${reason}`
+      : `Sync failed and ${unrestored.length} file(s) could not be restored (${report.failed
+          .map((failure) => `${toRelative(failure.path)}: ${failure.message}`)
+          .join('; ')}): ${reason}`;
+
+  return new SyncRollbackError(message, { restored, unrestored, cause });
+}
+
+/**
+ * Removes every declared file and every file recorded in the manifest, then strips the managed
+ * block from each ignore file. Sentinels, local-modification policies and backups apply as they do
+ * when pruning; json-merge files are left in place.
+ */
+export async function cleanConfigs(
+  files: ConfigMap,
+  options: SyncOptions = {},
+): Promise<SyncResult> {
+  const settings = resolveSyncSettings(options);
+  const { rootDir, encoding, gitignorePath, dryRun, diff, writer, manifestPath } = settings;
+
+  // Files of skipped entries are only removed when the manifest records them.
+  const { active } = await partitionByCondition(files, rootDir, settings);
+  const normalizedFiles = await normalizeFiles(active, rootDir, settings);
+  const previousManifest = manifestPath ? await readManifest(manifestPath, encoding) : null;
+  const targets = new Map<string, ManifestEntry>(Object.entries(previousManifest?.files ?? {}));
+  const ignoreTargets = new Set([
+    ...settings.defaultIgnoreFiles,
+    ...(previousManifest?.ignoreFiles ?? []).map((target) => path.resolve(rootDir, target)),
+  ]);
+
+  // Absent entries never generated anything to clean up.
+  for (const file of normalizedFiles.filter((candidate) => !candidate.absent)) {
+    targets.set(
+      file.relativePath,
+      toManifestEntry(file, previousManifest?.files[file.relativePath]?.hash),
+    );
+
+    for (const target of file.ignoreFiles ?? []) {
+      ignoreTargets.add(target);
+    }
+  }
+
+  const fileResults: FileSyncResult[] = [];
+  const ignoreResults: GitignoreResult[] = [];
+
+  try {
+    for (const [relativePath, entry] of targets) {
+      const result = await pruneFile(relativePath, entry, settings);
+      if (result) {
+        fileResults.push(result);
+      }
+    }
+
+    for (const target of ignoreTargets) {
+      ignoreResults.push(
+        await removeGitignoreBlock({
+          rootDir,
+          gitignorePath: target,
+          encoding,
+          dryRun,
+          diff,
+          writer,
+        }),
+      );
+    }
+
+    if (manifestPath && !dryRun) {
+      await writeManifest(manifestPath, createManifest(), { rootDir, encoding, writer });
+    }
+  } catch (error) {
+    throw settings.transactional ? await rollbackSync(writer, rootDir, error) : error;
+  }
+
+  return {
+    rootDir,
+    files: fileResults,
+    gitignore: ignoreResults[0] ?? skippedGitignoreResult(gitignorePath),
+    ignoreFiles: ignoreResults,
+  };
+}
+
+/**
+ * Resolves the effective settings of every declared file without touching the file system.
+ * Entries whose when condition is false are left out.
+ */
+export async function describeConfigs(
+  files: ConfigMap,
+  options: SyncOptions = {},
+): Promise<ConfigDescription[]> {
+  const settings = resolveSyncSettings({ ...options, dryRun: true });
+  const { rootDir, defaultIgnoreFiles } = settings;
+  const { active } = await partitionByCondition(files, rootDir, settings);
+  const normalizedFiles = await normalizeFiles(active, rootDir, settings);
+
+  return normalizedFiles.map((file) => {
+    const entry = files[file.declaredPath];
+    const strategy: ConfigStrategy = file.block
+      ? 'block'
+      : file.merge
+        ? 'json-merge'
+        : file.threeWay
+          ? 'merge'
+          : 'file';
+    const ignoreFiles = file.gitignoreEntry ? (file.ignoreFiles ?? defaultIgnoreFiles) : [];
+    const format =
+      'data' in entry && strategy !== 'json-merge'
+        ? (entry.format ?? inferDataFormat(file.relativePath) ?? undefined)
+        : undefined;
+
+    return {
+      path: file.relativePath,
+      absolutePath: file.absolutePath,
+      declaredPath: file.declaredPath,
+      strategy,
+      input: CONFIG_INPUTS.find((input) => input in entry) ?? 'contents',
+      ...(typeof entry.template === 'string'
+        ? { template: path.resolve(rootDir, entry.template) }
+        : {}),
+      ...(file.copiedFrom ? { copy: file.copiedFrom } : {}),
+      ...(file.symlink ? { symlink: file.symlink.target } : {}),
+      ...(format ? { format } : {}),
+      ...(file.sentinel ? { sentinel: file.sentinel } : {}),
+      gitignored: ignoreFiles.length > 0,
+      ignoreFiles: ignoreFiles.map((target) =>
+        normalizeRelativePath(path.relative(rootDir, target)),
+      ),
+      ...(file.mode !== undefined ? { mode: file.mode & 0o777 } : {}),
+      ...(file.block ? { markers: file.block } : {}),
+      ...(file.merge ? { arrays: file.merge.arrays } : {}),
+      ...(file.threeWay ? { conflicts: file.threeWay.conflicts } : {}),
+    };
+  });
+}
+
+function toManifestEntry(file: DeclaredConfigFile, hash: string | undefined): ManifestEntry {
+  return {
+    ...(file.sentinel ? { sentinel: file.sentinel } : {}),
+    ...(file.block ? { block: file.block } : {}),
+    ...(file.merge ? { strategy: 'json-merge' as const } : {}),
+    ...(file.threeWay ? { strategy: 'merge' as const } : {}),
+    ...(file.symlink ? { strategy: 'symlink' as const } : {}),
+    ...(hash ? { hash } : {}),
+  };
+}
+
+/**
+ * Performs a dry run and reports any drift between the declared configuration and the file system.
+ */
+export async function checkConfigs(
+  files: ConfigMap,
+  options: SyncOptions = {},
+): Promise<CheckResult> {
+  const result = await syncConfigs(files, { ...options, dryRun: true });
+  const issues: CheckIssue[] = [];
+
+  for (const file of result.files) {
+    if (file.warning) {
+      issues.push({ path: file.path, reason: 'warning', message: file.warning });
+    } else if (file.action !== 'unchanged' && file.action !== 'skipped-condition') {
+      issues.push({ path: file.path, reason: file.action });
+    }
+  }
+
+  for (const ignoreFile of result.ignoreFiles) {
+    if (ignoreFile.updated) {
+      issues.push({
+        path: normalizeRelativePath(path.relative(result.rootDir, ignoreFile.path)),
+        reason: 'gitignore',
+      });
+    }
+  }
+
+  return { ok: issues.length === 0, issues, result };
+}
+
+/**
+ * Reads an ignore file and reports whether its managed block is in the shape cpconfig writes.
+ * Whether the entries are up to date is left to checkConfigs.
+ */
+export async function inspectIgnoreFile(
+  ignoreFilePath: string,
+  encoding: BufferEncoding = 'utf8',
+): Promise<IgnoreFileInspection> {
+  const content = await readFileIfPresent(ignoreFilePath, encoding);
+  const blocks = splitLines(content ?? '').filter((line) => line === MANAGED_COMMENT).length;
+  const { managedEntries } = extractManagedBlock(content ?? '');
+  const problems: string[] = [];
+
+  if (blocks > 1) {
+    problems.push(
+      `"${MANAGED_COMMENT}" appears ${blocks} times; only the first block is maintained`,
+    );
+  }
+
+  if (blocks > 0 && managedEntries.length === 0) {
+    problems.push('the managed block has no entries');
+  }
+
+  const seen = new Set<string>();
+  for (const entry of managedEntries) {
+    const normalized = normalizeGitignoreEntry(entry);
+
+    if (seen.has(normalized)) {
+      problems.push(`${normalized} is listed more than once`);
+    } else if (normalized !== entry) {
+      problems.push(`"${entry}" is not written the way cpconfig writes it ("${normalized}")`);
+    }
+
+    seen.add(normalized);
+  }
+
+  return {
+    path: ignoreFilePath,
+    exists: content !== null,
+    blocks,
+    entries: managedEntries,
+    problems,
+  };
+}
+
+function resolveGitignorePath(rootDir: string, customPath?: string) {
+  if (!customPath) {
+    return path.join(rootDir, '.gitignore');
+  }
+
+  if (path.isAbsolute(customPath)) {
+    return customPath;
+  }
+
+  return path.resolve(rootDir, customPath);
+}
+
+async function normalizeFiles(
+  files: ConfigMap,
+  rootDir: string,
+  settings: Pick<SyncSettings, 'templateScope' | 'symlinkRoots'>,
+): Promise<DeclaredConfigFile[]> {
+  const seen = new Set<string>();
+
+  if (!files || typeof files !== 'object' || Array.isArray(files)) {
+    throw new TypeError('Expected an object map of files to synchronise');
+  }
+
+  const declarations = Object.entries(files).map(([rawPath, entry], index) => {
+    if (typeof rawPath !== 'string' || rawPath.trim().length === 0) {
+      throw new Error(`Config file at index ${index} is missing a valid path`);
+    }
+
+    const inputs = isPlainObject(entry) ? CONFIG_INPUTS.filter((input) => input in entry) : [];
+
+    if (inputs.length === 0) {
+      throw new Error(
+        `Config for "${rawPath}" must be an object with a contents, data, template, copy, symlink or absent property`,
+      );
+    }
+
+    if (inputs.length > 1) {
+      throw new Error(`Config for "${rawPath}" must not define both ${inputs.join(' and ')}`);
+    }
+
+    const { absolutePath, normalizedRelative } = resolveDeclaredPath(rawPath, rootDir);
+
+    if (seen.has(normalizedRelative)) {
+      throw new Error(`Duplicate config file definition for path "${normalizedRelative}"`);
+    }
+
+    seen.add(normalizedRelative);
+
+    return { rawPath, entry, absolutePath, normalizedRelative };
+  });
+
+  // Contents factories may be asynchronous, so resolve every declaration concurrently.
+  const resolved = await Promise.all(
+    declarations.map(async ({ rawPath, entry, absolutePath, normalizedRelative }) => {
+      const sentinel = entry.sentinel;
+      const strategy = entry.strategy ?? 'file';
+
+      if (sentinel !== undefined) {
+        if (typeof sentinel !== 'string' || sentinel.length === 0) {
+          throw new Error(`Sentinel for "${rawPath}" must be a non-empty string`);
+        }
+      }
+
+      if (!CONFIG_STRATEGIES.includes(strategy)) {
+        throw new Error(`Unsupported strategy "${String(strategy)}" for "${rawPath}"`);
+      }
+
+      if ((strategy === 'block' || strategy === 'json-merge') && sentinel !== undefined) {
+        throw new Error(
+          `Config for "${rawPath}" cannot combine a sentinel with strategy "${strategy}"; cpconfig only owns part of the file`,
+        );
+      }
+
+      if (
+        entry.conflicts !== undefined &&
+        entry.conflicts !== 'markers' &&
+        entry.conflicts !== 'refuse'
+      ) {
+        throw new Error(
+          `Unsupported conflicts setting "${String(entry.conflicts)}" for "${rawPath}"; expected "markers" or "refuse"`,
+        );
+      }
+
+      const ignoreFiles = resolveEntryIgnoreFiles(entry, rawPath, rootDir);
+
+      if (entry.gitignore === 'directory' && !('copy' in entry)) {
+        throw new Error(
+          `gitignore: 'directory' for "${rawPath}" only applies to entries that copy a directory`,
+        );
+      }
+
+      if (entry.removeEmptyParents !== undefined && !('absent' in entry)) {
+        throw new Error(`removeEmptyParents for "${rawPath}" only applies to absent entries`);
+      }
+
+      if ('absent' in entry) {
+        if (entry.absent !== true) {
+          throw new Error(`absent for "${rawPath}" must be true`);
+        }
+
+        if (strategy !== 'file' || entry.mode !== undefined) {
+          throw new Error(
+            `Config for "${rawPath}" is absent and cannot set a mode or strategy "${strategy}"`,
+          );
+        }
+
+        return [
+          {
+            declaredPath: rawPath,
+            absolutePath,
+            relativePath: normalizedRelative,
+            contents: '',
+            absent: { removeEmptyParents: entry.removeEmptyParents === true },
+            gitignoreEntry: null,
+            sentinel,
+          } satisfies NormalizedConfigFile,
+        ];
+      }
+
+      if ('copy' in entry) {
+        if (strategy !== 'file' || sentinel !== undefined) {
+          throw new Error(
+            `Config for "${rawPath}" cannot combine copy with a sentinel or strategy "${strategy}"; copied files are compared byte for byte`,
+          );
+        }
+
+        const copies = await resolveCopies(entry, rawPath, rootDir);
+
+        return copies.map(({ relativePath, sourcePath, contents }) => {
+          const target =
+            relativePath === '' ? normalizedRelative : `${normalizedRelative}/${relativePath}`;
+          const ignoredPath = entry.gitignore === 'directory' ? `${normalizedRelative}/` : target;
+
+          return {
+            declaredPath: rawPath,
+            absolutePath: path.join(absolutePath, ...relativePath.split('/')),
+            relativePath: target,
+            contents,
+            copiedFrom: sourcePath,
+            gitignoreEntry: entry.gitignore === false ? null : formatGitignoreEntry(ignoredPath),
+            ignoreFiles,
+            mode: entry.mode,
+          } satisfies NormalizedConfigFile<Buffer>;
+        });
+      }
+
+      if ('symlink' in entry) {
+        if (strategy !== 'file') {
+          throw new Error(`Config for "${rawPath}" must use strategy "file" with a symlink`);
+        }
+
+        if (entry.mode !== undefined) {
+          throw new Error(
+            `Config for "${rawPath}" cannot set a mode on a symlink; set it on the target instead`,
+          );
+        }
+
+        const symlink = await resolveSymlinkTarget(entry, rawPath, absolutePath, rootDir, settings);
+
+        return [
+          {
+            declaredPath: rawPath,
+            absolutePath,
+            relativePath: normalizedRelative,
+            contents: path.relative(path.dirname(absolutePath), symlink.target),
+            symlink,
+            gitignoreEntry:
+              entry.gitignore === false ? null : formatGitignoreEntry(normalizedRelative),
+            ignoreFiles,
+            sentinel,
+          } satisfies NormalizedConfigFile,
+        ];
+      }
+
+      if (strategy === 'json-merge') {
+        if (!('data' in entry)) {
+          throw new Error(
+            `Config for "${rawPath}" must provide data when using strategy "json-merge"`,
+          );
+        }
+
+        const data = await resolveData(entry, rawPath);
+
+        if (!isPlainObject(data)) {
+          throw new Error(
+            `Data for "${rawPath}" must be an object when using strategy "json-merge"`,
+          );
+        }
+
+        return [
+          {
+            declaredPath: rawPath,
+            absolutePath,
+            relativePath: normalizedRelative,
+            contents: `${JSON.stringify(data, null, 2)}\n`,
+            gitignoreEntry: isGitignored(entry) ? formatGitignoreEntry(normalizedRelative) : null,
+            ignoreFiles,
+            mode: entry.mode,
+            merge: { data, arrays: entry.arrays ?? 'replace' },
+          } satisfies NormalizedConfigFile,
+        ];
+      }
+
+      const contents =
+        'data' in entry
+          ? await resolveDataContents(entry, rawPath)
+          : 'template' in entry
+            ? await resolveTemplateContents(entry, rawPath, rootDir, settings.templateScope)
+            : await resolveContents(entry.contents, rawPath);
+
+      if (sentinel !== undefined) {
+        if (!contents.includes(sentinel)) {
+          throw new Error(
+            `Contents for "${rawPath}" must include the configured sentinel to allow cpconfig to manage it`,
+          );
+        }
+      }
+
+      const gitignoreEntry = isGitignored(entry) ? formatGitignoreEntry(normalizedRelative) : null;
+
+      if (Buffer.isBuffer(contents)) {
+        if (strategy !== 'file') {
+          throw new Error(`Config for "${rawPath}" must use strategy "file" with Buffer contents`);
+        }
+
+        return [
+          {
+            declaredPath: rawPath,
+            absolutePath,
+            relativePath: normalizedRelative,
+            contents,
+            gitignoreEntry,
+            ignoreFiles,
+            mode: entry.mode,
+            sentinel,
+          } satisfies NormalizedConfigFile<Buffer>,
+        ];
+      }
+
+      return [
+        {
+          declaredPath: rawPath,
+          absolutePath,
+          relativePath: normalizedRelative,
+          contents,
+          gitignoreEntry,
+          ignoreFiles,
+          mode: entry.mode,
+          sentinel,
+          block:
+            strategy === 'block' ? formatBlockMarkers(entry.comment, entry.markers) : undefined,
+          threeWay: strategy === 'merge' ? { conflicts: entry.conflicts ?? 'markers' } : undefined,
+        } satisfies NormalizedConfigFile,
+      ];
+    }),
+  );
+
+  // Copied directories expand to one file each, which may collide with paths declared elsewhere.
+  const expanded: DeclaredConfigFile[] = resolved.flat();
+  const expandedPaths = new Set<string>();
+
+  for (const file of expanded) {
+    if (expandedPaths.has(file.relativePath)) {
+      throw new Error(`Duplicate config file definition for path "${file.relativePath}"`);
+    }
+
+    expandedPaths.add(file.relativePath);
+  }
+
+  return expanded;
+}
+
+function resolveDeclaredPath(
+  rawPath: string,
+  rootDir: string,
+): { absolutePath: string; normalizedRelative: string } {
+  if (path.isAbsolute(rawPath)) {
+    throw new Error(`Config file path "${rawPath}" must be relative to the root directory`);
+  }
+
+  const absolutePath = path.resolve(rootDir, rawPath);
+  const relativePath = path.relative(rootDir, absolutePath);
+
+  if (
+    relativePath.startsWith('..') ||
+    relativePath.split(path.sep).some((segment) => segment === '..')
+  ) {
+    throw new Error(
+      `Config file path "${rawPath}" must reside within the root directory "${rootDir}"`,
+    );
+  }
+
+  return { absolutePath, normalizedRelative: normalizeRelativePath(relativePath) };
+}
+
+function resolveEntryIgnoreFiles(
+  entry: ConfigEntry,
+  filePath: string,
+  rootDir: string,
+): string[] | undefined {
+  if (
+    entry.ignoreFiles !== undefined &&
+    (!Array.isArray(entry.ignoreFiles) ||
+      entry.ignoreFiles.some((target) => typeof target !== 'string' || target.length === 0))
+  ) {
+    throw new Error(`ignoreFiles for "${filePath}" must be an array of non-empty paths`);
+  }
+
+  return entry.ignoreFiles?.map((target) => resolveGitignorePath(rootDir, target));
+}
+
+// Block and json-merge entries share their file with the user, so they are only ignored on request.
+function isGitignored(entry: ConfigEntry): boolean {
+  const strategy = entry.strategy ?? 'file';
+  return strategy === 'block' || strategy === 'json-merge'
+    ? entry.gitignore === true
+    : entry.gitignore !== false;
+}
+
+/**
+ * An entry whose when condition is false.
+ */
+type SkippedConfigEntry = {
+  relativePath: string;
+  absolutePath: string;
+  /**
+   * True for copy entries, whose generated files sit below relativePath.
+   */
+  copy: boolean;
+  gitignored: boolean;
+  ignoreDirectory: boolean;
+  ignoreFiles?: string[];
+};
+
+/**
+ * Splits files into the entries that apply and those whose when condition is false. Conditions
+ * are evaluated before normalizeFiles, so the factories of skipped entries never run.
+ */
+async function partitionByCondition(
+  files: ConfigMap,
+  rootDir: string,
+  settings: Pick<SyncSettings, 'conditionContext'>,
+): Promise<{ active: ConfigMap; skipped: SkippedConfigEntry[] }> {
+  // normalizeFiles reports malformed maps and entries.
+  if (!isPlainObject(files)) {
+    return { active: files, skipped: [] };
+  }
+
+  const evaluated = await Promise.all(
+    Object.entries(files).map(async ([rawPath, entry]) => ({
+      rawPath,
+      entry,
+      applies:
+        !isPlainObject(entry) ||
+        (await evaluateCondition(entry, rawPath, settings.conditionContext)),
+    })),
+  );
+  const active: ConfigMap = {};
+  const skipped: SkippedConfigEntry[] = [];
+
+  for (const { rawPath, entry, applies } of evaluated) {
+    if (applies) {
+      active[rawPath] = entry;
+      continue;
+    }
+
+    const { absolutePath, normalizedRelative } = resolveDeclaredPath(rawPath, rootDir);
+    skipped.push({
+      relativePath: normalizedRelative,
+      absolutePath,
+      copy: 'copy' in entry,
+      gitignored: isGitignored(entry),
+      ignoreDirectory: entry.gitignore === 'directory',
+      ignoreFiles: resolveEntryIgnoreFiles(entry, rawPath, rootDir),
+    });
+  }
+
+  return { active, skipped };
+}
+
+async function evaluateCondition(
+  entry: ConfigEntry,
+  filePath: string,
+  context: ConditionContext,
+): Promise<boolean> {
+  if (entry.when === undefined || typeof entry.when === 'boolean') {
+    return entry.when ?? true;
+  }
+
+  if (typeof entry.when !== 'function') {
+    throw new Error(`when for "${filePath}" must be a boolean or a function`);
+  }
+
+  let value: unknown;
+  try {
+    value = await entry.when(context);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`when function for "${filePath}" threw an error: ${message}`, {
+      cause: error,
+    });
+  }
+
+  if (typeof value !== 'boolean') {
+    throw new Error(`when function for "${filePath}" must return a boolean`);
+  }
+
+  return value;
+}
+
+function isGeneratedBy(entry: SkippedConfigEntry, relativePath: string): boolean {
+  return (
+    relativePath === entry.relativePath ||
+    (entry.copy && relativePath.startsWith(`${entry.relativePath}/`))
+  );
+}
+
+async function resolveContents(
+  rawContents: ConfigEntry['contents'],
+  filePath: string,
+): Promise<string | Buffer> {
+  if (typeof rawContents === 'string' || Buffer.isBuffer(rawContents)) {
+    return rawContents;
+  }
+
+  if (typeof rawContents === 'function') {
+    let value: unknown;
+    try {
+      value = await rawContents();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Contents function for "${filePath}" threw an error: ${message}`, {
+        cause: error,
+      });
+    }
+
+    if (typeof value === 'string' || Buffer.isBuffer(value)) {
+      return value;
+    }
+
+    throw new Error(`Contents function for "${filePath}" must return a string or a Buffer`);
+  }
+
+  throw new Error(`Contents for "${filePath}" must be a string, a Buffer or a function`);
+}
+
+type CopiedFile = {
+  /**
+   * Path below the copied directory, POSIX-style, or '' when a single file is copied.
+   */
+  relativePath: string;
+  sourcePath: string;
+  contents: Buffer;
+};
+
+async function resolveCopies(
+  entry: ConfigEntry,
+  filePath: string,
+  rootDir: string,
+): Promise<CopiedFile[]> {
+  if (typeof entry.copy !== 'string' || entry.copy.length === 0) {
+    throw new Error(`Copy source for "${filePath}" must be a non-empty path`);
+  }
+
+  for (const [name, patterns] of [
+    ['include', entry.include],
+    ['exclude', entry.exclude],
+  ] as const) {
+    if (
+      patterns !== undefined &&
+      (!Array.isArray(patterns) ||
+        patterns.some((pattern) => typeof pattern !== 'string' || pattern.length === 0))
+    ) {
+      throw new Error(`${name} for "${filePath}" must be an array of non-empty globs`);
+    }
+  }
+
+  const sourcePath = path.resolve(rootDir, entry.copy);
+  let stats: Stats;
+
+  try {
+    stats = await fs.stat(sourcePath);
+  } catch (error) {
+    throw new Error(`Failed to read "${entry.copy}" to copy it to "${filePath}"`, {
+      cause: error,
+    });
+  }
+
+  if (!stats.isDirectory()) {
+    if (entry.include || entry.exclude || entry.gitignore === 'directory') {
+      throw new Error(
+        `include, exclude and gitignore: 'directory' for "${filePath}" only apply when copying a directory`,
+      );
+    }
+
+    return [{ relativePath: '', sourcePath, contents: await fs.readFile(sourcePath) }];
+  }
+
+  const patterns = [
+    ...(entry.include ?? ['**']),
+    ...(entry.exclude ?? []).map((pattern) => `!${pattern}`),
+  ];
+  const relativePaths = await findMatchingFiles(sourcePath, patterns);
+
+  return Promise.all(
+    relativePaths.map(async (relativePath) => {
+      const copiedPath = path.join(sourcePath, ...relativePath.split('/'));
+      return { relativePath, sourcePath: copiedPath, contents: await fs.readFile(copiedPath) };
+    }),
+  );
+}
+
+async function resolveSymlinkTarget(
+  entry: ConfigEntry,
+  filePath: string,
+  linkPath: string,
+  rootDir: string,
+  settings: Pick<SyncSettings, 'symlinkRoots'>,
+): Promise<SymlinkTarget> {
+  if (typeof entry.symlink !== 'string' || entry.symlink.length === 0) {
+    throw new Error(`Symlink target for "${filePath}" must be a non-empty path`);
+  }
+
+  const target = path.resolve(rootDir, entry.symlink);
+
+  if (![rootDir, ...settings.symlinkRoots].some((root) => isWithinDirectory(root, target))) {
+    const roots = settings.symlinkRoots.length > 0 ? ' or one of symlinkRoots' : '';
+    throw new Error(
+      `Symlink target "${entry.symlink}" for "${filePath}" must reside within the root directory "${rootDir}"${roots}`,
+    );
+  }
+
+  if (target === linkPath) {
+    throw new Error(`Symlink for "${filePath}" must not point at itself`);
+  }
+
+  let stats: Stats;
+
+  try {
+    stats = await fs.stat(target);
+  } catch (error) {
+    throw new Error(`Failed to read symlink target "${entry.symlink}" for "${filePath}"`, {
+      cause: error,
+    });
+  }
+
+  return { target, type: stats.isDirectory() ? 'dir' : 'file' };
+}
+
+function isWithinDirectory(directory: string, candidate: string): boolean {
+  const relative = path.relative(directory, candidate);
+  return !path.isAbsolute(relative) && !relative.split(path.sep).includes('..');
+}
+
+async function resolveDataContents(entry: ConfigEntry, filePath: string): Promise<string> {
+  const format = entry.format ?? inferDataFormat(filePath);
+
+  if (!format) {
+    throw new Error(
+      `Unable to infer a data format for "${filePath}". Set format to one of ${DATA_FORMATS.join(', ')}`,
+    );
+  }
+
+  if (!DATA_FORMATS.includes(format)) {
+    throw new Error(
+      `Unsupported format "${String(format)}" for "${filePath}". Expected one of ${DATA_FORMATS.join(', ')}`,
+    );
+  }
+
+  const data = await resolveData(entry, filePath);
+
+  try {
+    return serializeData(data, format, { sentinel: entry.sentinel });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Unable to serialise data for "${filePath}": ${message}`, { cause: error });
+  }
+}
+
+async function resolveTemplateContents(
+  entry: ConfigEntry,
+  filePath: string,
+  rootDir: string,
+  templateScope: TemplateScope,
+): Promise<string> {
+  if (typeof entry.template !== 'string' || entry.template.length === 0) {
+    throw new Error(`Template for "${filePath}" must be a non-empty path`);
+  }
+
+  if (entry.variables !== undefined && !isPlainObject(entry.variables)) {
+    throw new Error(`Variables for "${filePath}" must be an object`);
+  }
+
+  const templatePath = path.resolve(rootDir, entry.template);
+  let source: string;
+  try {
+    source = await fs.readFile(templatePath, 'utf8');
+  } catch (error) {
+    throw new Error(`Failed to read template "${entry.template}" for "${filePath}"`, {
+      cause: error,
+    });
+  }
+
+  return renderTemplate(source, { ...entry.variables, ...templateScope }, entry.template);
+}
+
+async function resolveData(entry: ConfigEntry, filePath: string): Promise<unknown> {
+  try {
+    return typeof entry.data === 'function' ? await entry.data() : entry.data;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Data function for "${filePath}" threw an error: ${message}`, {
+      cause: error,
+    });
+  }
+}
+
+function normalizeRelativePath(relativePath: string): string {
+  const posix = relativePath.split(path.sep).join('/');
+  return posix.replace(/^\.\/(.*)/, '$1');
+}
+
+function formatGitignoreEntry(relativePath: string): string {
+  if (relativePath.startsWith('/')) {
+    return relativePath;
+  }
+
+  return `/${relativePath}`;
+}
+
+type SyncFileOptions = {
+  rootDir: string;
+  dryRun: boolean;
+  encoding: BufferEncoding;
+  diff: boolean;
+  writer: FileWriter;
+  localModifications: LocalModificationPolicy;
+  backups: boolean;
+  backupTimestamp: string;
+};
+
+async function syncFile(
+  file: DeclaredConfigFile,
+  previous: ManifestEntry | undefined,
+  options: SyncFileOptions,
+): Promise<SyncFileOutcome> {
+  if (file.mode === undefined) {
+    return syncContents(file, previous, options);
+  }
+
+  const mode = file.mode & 0o777;
+  const previousMode = await readPermissionBits(file.absolutePath);
+  const outcome = await syncContents(file, previous, options);
+
+  if (!outcome.managed) {
+    return outcome;
+  }
+
+  if (previousMode === null) {
+    return { ...outcome, mode };
+  }
+
+  if (previousMode === mode) {
+    return { ...outcome, mode, previousMode };
+  }
+
+  // Content writes already apply the mode; an otherwise untouched file only needs a chmod.
+  if (outcome.action === 'unchanged' && !outcome.locallyModified) {
+    if (!options.dryRun) {
+      await options.writer.chmod(file.absolutePath, mode);
+    }
+
+    return { ...outcome, action: 'mode-changed', mode, previousMode };
+  }
+
+  return { ...outcome, mode, previousMode };
+}
+
+async function syncContents(
+  file: DeclaredConfigFile,
+  previous: ManifestEntry | undefined,
+  options: SyncFileOptions,
+): Promise<SyncFileOutcome> {
+  if (file.absent) {
+    return removeAbsentFile(file, file.absent, previous, options);
+  }
+
+  if (file.symlink && !isBinaryFile(file)) {
+    return syncSymlink(file, file.symlink, previous, options);
+  }
+
+  // Writes follow symlinks, so a link left behind by a former symlink entry is removed rather than
+  // written through into its target.
+  if (
+    previous?.strategy === 'symlink' &&
+    !options.dryRun &&
+    (await lstatIfPresent(file.absolutePath))?.isSymbolicLink()
+  ) {
+    await options.writer.removeFile(file.absolutePath);
+  }
+
+  return isBinaryFile(file)
+    ? syncBinaryFile(file, previous, options)
+    : syncFileContents(file, previous, options);
+}
+
+function isBinaryFile(file: DeclaredConfigFile): file is NormalizedConfigFile<Buffer> {
+  return Buffer.isBuffer(file.contents);
+}
+
+/**
+ * Counterpart of syncFileContents for Buffer contents and copied files, which are compared byte for
+ * byte and never decoded with SyncOptions.encoding.
+ */
+async function syncBinaryFile(
+  file: NormalizedConfigFile<Buffer>,
+  previous: ManifestEntry | undefined,
+  options: SyncFileOptions,
+): Promise<SyncFileOutcome> {
+  const { dryRun, encoding, writer } = options;
+  const existing = await readBytesIfPresent(file.absolutePath);
+  const hash = hashContents(file.contents, encoding);
+  const diff = options.diff
+    ? buildContentsDiff(file.relativePath, existing, file.contents, encoding)
+    : undefined;
+
+  if (existing === null) {
+    if (!dryRun) {
+      await writeConfigFile(writer, file, file.contents, encoding);
+    }
+
+    return { action: 'created', managed: true, diff, hash };
+  }
+
+  if (file.sentinel && !existing.includes(file.sentinel)) {
+    return {
+      action: 'unchanged',
+      managed: false,
+      warning: `Not overwriting "${file.relativePath}" because the sentinel "${file.sentinel}" was not found in the existing file.`,
+    };
+  }
+
+  const locallyModified =
+    previous?.hash === undefined ? undefined : hashContents(existing, encoding) !== previous.hash;
+
+  if (existing.equals(file.contents)) {
+    return {
+      action: 'unchanged',
+      managed: true,
+      hash,
+      locallyModified: locallyModified === undefined ? undefined : false,
+    };
+  }
+
+  let backupPath: string | undefined;
+
+  if (locallyModified && options.localModifications === 'skip-with-warning') {
+    return {
+      action: 'unchanged',
+      managed: true,
+      locallyModified,
+      hash: previous?.hash,
+      warning: `Not overwriting "${file.relativePath}" because it was modified since cpconfig last wrote it.`,
+    };
+  }
+
+  if (locallyModified && options.localModifications === 'backup-then-overwrite') {
+    backupPath = await backupContents(file.relativePath, existing, options);
+  }
+
+  backupPath ??= await backupBeforeWrite(file.relativePath, existing, previous, options);
+
+  if (!dryRun) {
+    await writeConfigFile(writer, file, file.contents, encoding);
+  }
+
+  return { action: 'updated', managed: true, diff, hash, locallyModified, backupPath };
+}
+
+/**
+ * Creates or repairs the link of a symlink entry. file.contents holds the link text, which the
+ * manifest hash and diffs describe.
+ */
+async function syncSymlink(
+  file: NormalizedConfigFile,
+  symlink: SymlinkTarget,
+  previous: ManifestEntry | undefined,
+  options: SyncFileOptions,
+): Promise<SyncFileOutcome> {
+  const { dryRun, encoding, writer } = options;
+  const stats = await lstatIfPresent(file.absolutePath);
+  const hash = hashContents(file.contents, encoding);
+  const createLink = async () => {
+    if (!dryRun) {
+      await writer.symlink(file.contents, file.absolutePath, symlink.type);
+    }
+  };
+
+  if (stats === null) {
+    await createLink();
+    return {
+      action: 'created',
+      managed: true,
+      diff: options.diff ? buildDiff(file.relativePath, null, file.contents) : undefined,
+      hash,
+    };
+  }
+
+  if (stats.isSymbolicLink()) {
+    const current = await fs.readlink(file.absolutePath);
+    const locallyModified =
+      previous?.hash === undefined ? undefined : hashContents(current, encoding) !== previous.hash;
+
+    if (current === file.contents) {
+      return {
+        action: 'unchanged',
+        managed: true,
+        hash,
+        locallyModified: locallyModified === undefined ? undefined : false,
+      };
+    }
+
+    if (locallyModified && options.localModifications === 'skip-with-warning') {
+      return {
+        action: 'unchanged',
+        managed: true,
+        locallyModified,
+        hash: previous?.hash,
+        warning: `Not repointing "${file.relativePath}" because it was repointed since cpconfig last wrote it.`,
+      };
+    }
+
+    await createLink();
+    return {
+      action: 'updated',
+      managed: true,
+      diff: options.diff ? buildDiff(file.relativePath, current, file.contents) : undefined,
+      hash,
+      locallyModified,
+    };
+  }
+
+  if (!stats.isFile()) {
+    return {
+      action: 'unchanged',
+      managed: false,
+      warning: `Not replacing "${file.relativePath}" with a symlink because it is ${stats.isDirectory() ? 'a directory' : 'not a regular file'}.`,
+    };
+  }
+
+  const existing = await fs.readFile(file.absolutePath);
+
+  if (file.sentinel && !existing.includes(file.sentinel)) {
+    return {
+      action: 'unchanged',
+      managed: false,
+      warning: `Not replacing "${file.relativePath}" with a symlink because the sentinel "${file.sentinel}" was not found in the existing file.`,
+    };
+  }
+
+  const locallyModified =
+    previous?.hash === undefined ? undefined : hashContents(existing, encoding) !== previous.hash;
+  let backupPath: string | undefined;
+
+  if (locallyModified && options.localModifications === 'skip-with-warning') {
+    return {
+      action: 'unchanged',
+      managed: true,
+      locallyModified,
+      hash: previous?.hash,
+      warning: `Not replacing "${file.relativePath}" with a symlink because it was modified since cpconfig last wrote it.`,
+    };
+  }
+
+  if (locallyModified && options.localModifications === 'backup-then-overwrite') {
+    backupPath = await backupContents(file.relativePath, existing, options);
+  }
+
+  backupPath ??= await backupBeforeWrite(file.relativePath, existing, previous, options);
+  await createLink();
+
+  return {
+    action: 'updated',
+    managed: true,
+    diff: options.diff
+      ? buildContentsDiff(file.relativePath, existing, Buffer.from(file.contents), encoding)
+      : undefined,
+    hash,
+    locallyModified,
+    backupPath,
+  };
+}
+
+/**
+ * Deletes the path of an absent entry, following the sentinel and local-modification rules that
+ * apply when pruning. A symlink is removed without touching its target.
+ */
+async function removeAbsentFile(
+  file: DeclaredConfigFile,
+  absent: { removeEmptyParents: boolean },
+  previous: ManifestEntry | undefined,
+  options: SyncFileOptions,
+): Promise<SyncFileOutcome> {
+  const { dryRun, encoding, writer } = options;
+  const stats = await lstatIfPresent(file.absolutePath);
+
+  if (stats === null) {
+    return { action: 'unchanged', managed: true };
+  }
+
+  if (stats.isDirectory()) {
+    return {
+      action: 'unchanged',
+      managed: false,
+      warning: `Not deleting "${file.relativePath}" because it is a directory.`,
+    };
+  }
+
+  // A dangling symlink has no contents to check.
+  const existing = await readBytesIfPresent(file.absolutePath);
+
+  if (file.sentinel && !existing?.includes(file.sentinel)) {
+    return {
+      action: 'unchanged',
+      managed: false,
+      warning: `Not deleting "${file.relativePath}" because the sentinel "${file.sentinel}" was not found in the existing file.`,
+    };
+  }
+
+  const locallyModified =
+    previous?.hash === undefined || existing === null
+      ? undefined
+      : hashContents(existing, encoding) !== previous.hash;
+  let backupPath: string | undefined;
+
+  if (locallyModified && options.localModifications === 'skip-with-warning') {
+    return {
+      action: 'unchanged',
+      managed: true,
+      locallyModified,
+      hash: previous?.hash,
+      warning: `Not deleting "${file.relativePath}" because it was modified since cpconfig last wrote it.`,
+    };
+  }
+
+  if (locallyModified && options.localModifications === 'backup-then-overwrite' && existing) {
+    backupPath = await backupContents(file.relativePath, existing, options);
+  }
+
+  backupPath ??= await backupBeforeWrite(file.relativePath, existing, previous, options);
+
+  if (!dryRun) {
+    await writer.removeFile(file.absolutePath);
+  }
+
+  const removedDirectories = absent.removeEmptyParents
+    ? await removeEmptyParents(file.absolutePath, options)
+    : [];
+
+  return {
+    action: 'deleted',
+    managed: true,
+    diff: options.diff ? buildContentsDiff(file.relativePath, existing, null, encoding) : undefined,
+    locallyModified,
+    backupPath,
+    ...(removedDirectories.length > 0 ? { removedDirectories } : {}),
+  };
+}
+
+/**
+ * Removes the directories above filePath that are empty once it is gone, stopping at rootDir. A
+ * dry run reports the directories that only contain filePath.
+ */
+async function removeEmptyParents(
+  filePath: string,
+  options: Pick<SyncFileOptions, 'rootDir' | 'dryRun' | 'writer'>,
+): Promise<string[]> {
+  const removed: string[] = [];
+  let child = filePath;
+  let directory = path.dirname(filePath);
+
+  while (directory !== options.rootDir && isWithinDirectory(options.rootDir, directory)) {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(directory);
+    } catch {
+      break;
+    }
+
+    const remaining = options.dryRun
+      ? entries.filter((name) => name !== path.basename(child))
+      : entries;
+
+    if (remaining.length > 0) {
+      break;
+    }
+
+    if (!options.dryRun) {
+      await options.writer.removeDirectory(directory);
+    }
+
+    removed.push(normalizeRelativePath(path.relative(options.rootDir, directory)));
+    child = directory;
+    directory = path.dirname(directory);
+  }
+
+  return removed;
+}
+
+async function syncFileContents(
+  file: NormalizedConfigFile,
+  previous: ManifestEntry | undefined,
+  options: SyncFileOptions,
+): Promise<SyncFileOutcome> {
+  const { dryRun, encoding, writer } = options;
+  const diffAgainst = (existing: string | null, next: string) =>
+    options.diff ? buildDiff(file.relativePath, existing, next) : undefined;
+
+  let existing: string | null = null;
+  try {
+    existing = await fs.readFile(file.absolutePath, { encoding });
+  } catch (error) {
+    if (!(error instanceof Error) || (error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  if (file.block) {
+    const upsert = upsertBlock(existing, file.block, file.contents);
+
+    if (!upsert.ok) {
+      return {
+        action: 'unchanged',
+        managed: false,
+        warning: `Not updating the managed block in "${file.relativePath}" because ${upsert.reason}.`,
+      };
+    }
+
+    if (upsert.change === 'unchanged') {
+      return { action: 'unchanged', managed: true, block: 'unchanged' };
+    }
+
+    const backupPath = await backupBeforeWrite(file.relativePath, existing, previous, options);
+
+    if (!dryRun) {
+      await writeConfigFile(writer, file, upsert.content, encoding);
+    }
+
+    return {
+      action: existing === null ? 'created' : 'updated',
+      managed: true,
+      block: upsert.change,
+      diff: diffAgainst(existing, upsert.content),
+      backupPath,
+    };
+  }
 
-  const normalizedFiles = normalizeFiles(files, rootDir);
+  if (file.merge) {
+    let merged: ReturnType<typeof mergeJsonText>;
+    try {
+      merged = mergeJsonText(existing, file.merge.data, { arrays: file.merge.arrays });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        action: 'unchanged',
+        managed: false,
+        warning: `Not merging into "${file.relativePath}" because it could not be parsed: ${message}`,
+      };
+    }
 
-  const fileResults: FileSyncResult[] = [];
-  const gitignoreEntries: string[] = [];
+    if (existing !== null && merged.content === existing) {
+      return { action: 'unchanged', managed: true, changedKeys: [] };
+    }
 
-  for (const file of normalizedFiles) {
-    const { action, managed, warning } = await syncFile(file, { dryRun, encoding });
+    const backupPath = await backupBeforeWrite(file.relativePath, existing, previous, options);
 
-    if (managed && file.gitignoreEntry) {
-      gitignoreEntries.push(file.gitignoreEntry);
+    if (!dryRun) {
+      await writeConfigFile(writer, file, merged.content, encoding);
     }
 
-    fileResults.push({
-      path: file.relativePath,
-      managed,
-      absolutePath: file.absolutePath,
-      action,
-      skipped: action === 'unchanged' && managed,
-      gitignored: managed && Boolean(file.gitignoreEntry),
-      warning,
-    });
+    return {
+      action: existing === null ? 'created' : 'updated',
+      managed: true,
+      changedKeys: merged.changedPaths,
+      diff: diffAgainst(existing, merged.content),
+      backupPath,
+    };
   }
 
-  const gitignoreResult = await syncGitignore({
-    rootDir,
-    gitignorePath,
-    entries: gitignoreEntries,
-    encoding,
-    dryRun,
-  });
+  const hash = hashContents(file.contents, encoding);
 
-  return {
-    rootDir,
-    files: fileResults,
-    gitignore: gitignoreResult,
-  };
-}
+  if (existing === null) {
+    if (!dryRun) {
+      await writeConfigFile(writer, file, file.contents, encoding);
 
-function resolveGitignorePath(rootDir: string, customPath?: string) {
-  if (!customPath) {
-    return path.join(rootDir, '.gitignore');
+      if (file.threeWay) {
+        await writeBaseCopy(file, null, options);
+      }
+    }
+
+    return { action: 'created', managed: true, diff: diffAgainst(null, file.contents), hash };
   }
 
-  if (path.isAbsolute(customPath)) {
-    return customPath;
+  if (file.sentinel && !existing.includes(file.sentinel)) {
+    return {
+      action: 'unchanged',
+      managed: false,
+      warning: `Not overwriting "${file.relativePath}" because the sentinel "${file.sentinel}" was not found in the existing file.`,
+    };
   }
 
-  return path.resolve(rootDir, customPath);
-}
+  if (file.threeWay) {
+    return mergeFileContents(file, file.threeWay, existing, previous, options);
+  }
 
-function normalizeFiles(files: ConfigMap, rootDir: string): NormalizedConfigFile[] {
-  const seen = new Set<string>();
+  const locallyModified =
+    previous?.hash === undefined ? undefined : hashContents(existing, encoding) !== previous.hash;
 
-  if (!files || typeof files !== 'object' || Array.isArray(files)) {
-    throw new TypeError('Expected an object map of files to synchronise');
+  if (existing === file.contents) {
+    return {
+      action: 'unchanged',
+      managed: true,
+      hash,
+      locallyModified: locallyModified === undefined ? undefined : false,
+    };
   }
 
-  return Object.entries(files).map(([rawPath, entry], index) => {
-    if (typeof rawPath !== 'string' || rawPath.trim().length === 0) {
-      throw new Error(`Config file at index ${index} is missing a valid path`);
+  let backupPath: string | undefined;
+
+  if (locallyModified) {
+    switch (options.localModifications) {
+      case 'skip-with-warning':
+        // Keep the old hash so the edit keeps being detected until it is resolved.
+        return {
+          action: 'unchanged',
+          managed: true,
+          locallyModified,
+          hash: previous?.hash,
+          warning: `Not overwriting "${file.relativePath}" because it was modified since cpconfig last wrote it.`,
+        };
+      case 'backup-then-overwrite':
+        backupPath = await backupContents(file.relativePath, existing, options);
+        break;
+      default:
+        break;
     }
+  }
 
-    if (!isPlainObject(entry) || !('contents' in entry)) {
-      throw new Error(`Config for "${rawPath}" must be an object with a contents property`);
-    }
+  backupPath ??= await backupBeforeWrite(file.relativePath, existing, previous, options);
 
-    if (path.isAbsolute(rawPath)) {
-      throw new Error(`Config file path "${rawPath}" must be relative to the root directory`);
-    }
+  if (!dryRun) {
+    await writeConfigFile(writer, file, file.contents, encoding);
+  }
 
-    const absolutePath = path.resolve(rootDir, rawPath);
-    const relativePath = path.relative(rootDir, absolutePath);
+  return {
+    action: 'updated',
+    managed: true,
+    diff: diffAgainst(existing, file.contents),
+    hash,
+    locallyModified,
+    backupPath,
+  };
+}
 
-    if (
-      relativePath.startsWith('..') ||
-      relativePath.split(path.sep).some((segment) => segment === '..')
-    ) {
-      throw new Error(
-        `Config file path "${rawPath}" must reside within the root directory "${rootDir}"`,
-      );
-    }
+async function mergeFileContents(
+  file: NormalizedConfigFile,
+  threeWay: { conflicts: ConflictHandling },
+  existing: string,
+  previous: ManifestEntry | undefined,
+  options: SyncFileOptions,
+): Promise<SyncFileOutcome> {
+  const { dryRun, encoding, writer } = options;
+  const base = await readFileIfPresent(
+    resolveBasePath(options.rootDir, file.relativePath),
+    encoding,
+  );
+  const existingHash = hashContents(existing, encoding);
 
-    const normalizedRelative = normalizeRelativePath(relativePath);
+  let merged: ThreeWayMergeResult | null;
 
-    if (seen.has(normalizedRelative)) {
-      throw new Error(`Duplicate config file definition for path "${normalizedRelative}"`);
-    }
+  if (existing === file.contents) {
+    merged = { content: existing, conflicts: 0 };
+  } else if (base === null && previous?.hash === existingHash) {
+    // Without a base copy, a file that was not edited since the last sync can simply be replaced.
+    merged = { content: file.contents, conflicts: 0 };
+  } else {
+    merged = mergeThreeWay(base ?? '', existing, file.contents);
+  }
 
-    seen.add(normalizedRelative);
+  if (merged === null) {
+    return {
+      action: 'conflict',
+      managed: true,
+      hash: previous?.hash,
+      warning: `Not merging "${file.relativePath}" because it has more than ${MAX_MERGE_LINES} lines.`,
+    };
+  }
 
-    const contents = resolveContents(entry.contents, rawPath);
-    const sentinel = entry.sentinel;
+  if (merged.conflicts > 0 && threeWay.conflicts === 'refuse') {
+    return { action: 'conflict', managed: true, conflicts: merged.conflicts, hash: previous?.hash };
+  }
 
-    if (sentinel !== undefined) {
-      if (typeof sentinel !== 'string' || sentinel.length === 0) {
-        throw new Error(`Sentinel for "${rawPath}" must be a non-empty string`);
-      }
+  const backupPath =
+    merged.content === existing
+      ? undefined
+      : await backupBeforeWrite(file.relativePath, existing, previous, options);
 
-      if (!contents.includes(sentinel)) {
-        throw new Error(
-          `Contents for "${rawPath}" must include the configured sentinel to allow cpconfig to manage it`,
-        );
-      }
-    }
+  if (!dryRun && merged.content !== existing) {
+    await writeConfigFile(writer, file, merged.content, encoding);
+  }
 
-    const gitignoreEntry =
-      entry.gitignore === false ? null : formatGitignoreEntry(normalizedRelative);
+  if (!dryRun) {
+    await writeBaseCopy(file, base, options);
+  }
 
-    return {
-      absolutePath,
-      relativePath: normalizedRelative,
-      contents,
-      gitignoreEntry,
-      mode: entry.mode,
-      sentinel,
-    } satisfies NormalizedConfigFile;
-  });
+  const conflicts = merged.conflicts > 0 ? merged.conflicts : undefined;
+  const hash = hashContents(merged.content, encoding);
+
+  if (merged.content === existing) {
+    // Markers written by an earlier sync keep being reported until someone resolves them.
+    return hasConflictMarkers(existing)
+      ? { action: 'conflict', managed: true, hash }
+      : { action: 'unchanged', managed: true, hash };
+  }
+
+  return {
+    action: conflicts ? 'conflict' : 'updated',
+    managed: true,
+    diff: options.diff ? buildDiff(file.relativePath, existing, merged.content) : undefined,
+    conflicts,
+    backupPath,
+    hash,
+  };
 }
 
-function resolveContents(rawContents: ConfigEntry['contents'], filePath: string): string {
-  if (typeof rawContents === 'string') {
-    return rawContents;
+async function writeBaseCopy(
+  file: NormalizedConfigFile,
+  base: string | null,
+  options: SyncFileOptions,
+): Promise<void> {
+  if (base === file.contents) {
+    return;
   }
 
-  if (typeof rawContents === 'function') {
-    const value = rawContents();
+  await ensureStateDirectory(options.rootDir, options);
+  await options.writer.writeFile(
+    resolveBasePath(options.rootDir, file.relativePath),
+    file.contents,
+    { encoding: options.encoding },
+  );
+}
 
-    if (typeof value === 'string') {
-      return value;
-    }
+/**
+ * With SyncOptions.backups enabled, copies existing contents aside before they are replaced,
+ * unless they are exactly what cpconfig wrote last time.
+ */
+async function backupBeforeWrite(
+  relativePath: string,
+  existing: string | Buffer | null,
+  previous: ManifestEntry | undefined,
+  options: SyncFileOptions,
+): Promise<string | undefined> {
+  if (!options.backups || existing === null) {
+    return undefined;
+  }
 
-    if (
-      value &&
-      typeof (value as unknown) === 'object' &&
-      'then' in (value as Record<string, unknown>)
-    ) {
-      throw new Error(`Async contents are not supported for "${filePath}"`);
-    }
+  if (previous?.hash !== undefined && hashContents(existing, options.encoding) === previous.hash) {
+    return undefined;
+  }
 
-    throw new Error(`Contents function for "${filePath}" must return a string`);
+  return backupContents(relativePath, existing, options);
+}
+
+async function backupContents(
+  relativePath: string,
+  contents: string | Buffer,
+  options: SyncFileOptions,
+): Promise<string> {
+  if (options.dryRun) {
+    return resolveBackupPath(relativePath, options.backupTimestamp);
   }
 
-  throw new Error(`Contents for "${filePath}" must be a string or a function`);
+  return backupFile(options.rootDir, relativePath, contents, {
+    timestamp: options.backupTimestamp,
+    encoding: options.encoding,
+    writer: options.writer,
+  });
 }
 
-function normalizeRelativePath(relativePath: string): string {
-  const posix = relativePath.split(path.sep).join('/');
-  return posix.replace(/^\.\/(.*)/, '$1');
+async function writeConfigFile(
+  writer: FileWriter,
+  file: DeclaredConfigFile,
+  contents: string | Buffer,
+  encoding: BufferEncoding,
+): Promise<void> {
+  await writer.writeFile(file.absolutePath, contents, { encoding, mode: file.mode });
 }
 
-function formatGitignoreEntry(relativePath: string): string {
-  if (relativePath.startsWith('/')) {
-    return relativePath;
+function buildDiff(relativePath: string, before: string | null, after: string | null): string {
+  return createUnifiedDiff(before, after, {
+    oldPath: `a/${relativePath}`,
+    newPath: `b/${relativePath}`,
+  });
+}
+
+/**
+ * Unified diff of two byte sequences, or git's "Binary files differ" line when either side looks
+ * binary.
+ */
+function buildContentsDiff(
+  relativePath: string,
+  before: Buffer | null,
+  after: Buffer | null,
+  encoding: BufferEncoding,
+): string {
+  if (!isBinaryContents(before) && !isBinaryContents(after)) {
+    return buildDiff(
+      relativePath,
+      before?.toString(encoding) ?? null,
+      after?.toString(encoding) ?? null,
+    );
   }
 
-  return `/${relativePath}`;
+  const oldPath = before ? `a/${relativePath}` : '/dev/null';
+  const newPath = after ? `b/${relativePath}` : '/dev/null';
+  return `Binary files ${oldPath} and ${newPath} differ\n`;
 }
 
-async function syncFile(
-  file: NormalizedConfigFile,
-  options: { dryRun: boolean; encoding: BufferEncoding },
-): Promise<{ action: FileAction; managed: boolean; warning?: string }> {
-  const { dryRun, encoding } = options;
+function isBinaryContents(contents: Buffer | null): boolean {
+  return contents !== null && contents.subarray(0, BINARY_SNIFF_LENGTH).includes(0);
+}
 
-  let existing: string | null = null;
-  try {
-    existing = await fs.readFile(file.absolutePath, { encoding });
-  } catch (error) {
-    if (!(error instanceof Error) || (error as NodeJS.ErrnoException).code !== 'ENOENT') {
-      throw error;
+async function pruneFile(
+  relativePath: string,
+  entry: ManifestEntry,
+  options: SyncFileOptions,
+): Promise<FileSyncResult | null> {
+  const { rootDir, dryRun, encoding, writer } = options;
+  const absolutePath = path.resolve(rootDir, relativePath);
+  const relativeToRoot = path.relative(rootDir, absolutePath);
+
+  // Ignore manifest entries that would point outside of the root, e.g. after a hand edit.
+  if (
+    path.isAbsolute(relativeToRoot) ||
+    relativeToRoot.split(path.sep).some((segment) => segment === '..')
+  ) {
+    return null;
+  }
+
+  // A merge entry's base copy goes with its file; an orphan kept with a warning keeps it for the
+  // next three-way merge.
+  const removeBaseCopy = async () => {
+    if (entry.strategy === 'merge' && !dryRun) {
+      await writer.removeFile(resolveBasePath(rootDir, relativePath));
     }
+  };
+
+  if (entry.strategy === 'symlink') {
+    return pruneSymlink(relativePath, absolutePath, entry, options);
   }
 
-  if (existing === null) {
+  // Hashes and backups use the raw bytes, so copied binary files are pruned like text files.
+  const bytes = await readBytesIfPresent(absolutePath);
+
+  if (bytes === null) {
+    await removeBaseCopy();
+    return null;
+  }
+
+  const existing = bytes.toString(encoding);
+
+  // Merged keys cannot be told apart from the user's own, so the file is left as it is.
+  if (entry.strategy === 'json-merge') {
+    return null;
+  }
+
+  if (entry.block) {
+    const remaining = removeBlock(existing, entry.block);
+
+    if (remaining === null) {
+      return null;
+    }
+
+    // Files that only ever contained the block are removed entirely.
+    const emptied = remaining.trim() === '';
+    const backupPath = await backupBeforeWrite(relativePath, existing, entry, options);
+
     if (!dryRun) {
-      await fs.mkdir(path.dirname(file.absolutePath), { recursive: true });
-      await fs.writeFile(file.absolutePath, file.contents, {
-        encoding,
-        mode: file.mode,
-      });
+      if (emptied) {
+        await writer.removeFile(absolutePath);
+      } else {
+        await writer.writeFile(absolutePath, remaining, { encoding });
+      }
     }
 
-    return { action: 'created', managed: true };
+    return {
+      path: relativePath,
+      managed: true,
+      absolutePath,
+      action: emptied ? 'deleted' : 'updated',
+      skipped: false,
+      gitignored: false,
+      block: 'removed',
+      ...(backupPath ? { backupPath } : {}),
+      ...(options.diff
+        ? { diff: buildDiff(relativePath, existing, emptied ? null : remaining) }
+        : {}),
+    };
   }
 
-  if (file.sentinel && !existing.includes(file.sentinel)) {
+  if (entry.sentinel && !existing.includes(entry.sentinel)) {
     return {
+      path: relativePath,
+      managed: false,
+      absolutePath,
       action: 'unchanged',
+      skipped: false,
+      gitignored: false,
+      warning: `Not deleting "${relativePath}" because the sentinel "${entry.sentinel}" was not found in the existing file.`,
+    };
+  }
+
+  const locallyModified =
+    entry.hash === undefined ? undefined : hashContents(bytes, encoding) !== entry.hash;
+  let backupPath: string | undefined;
+
+  if (locallyModified && options.localModifications === 'skip-with-warning') {
+    return {
+      path: relativePath,
       managed: false,
-      warning: `Not overwriting "${file.relativePath}" because the sentinel "${file.sentinel}" was not found in the existing file.`,
+      absolutePath,
+      action: 'unchanged',
+      skipped: false,
+      gitignored: false,
+      locallyModified,
+      warning: `Not deleting "${relativePath}" because it was modified since cpconfig last wrote it.`,
     };
   }
 
-  if (existing === file.contents) {
-    return { action: 'unchanged', managed: true };
+  if (locallyModified && options.localModifications === 'backup-then-overwrite') {
+    backupPath = await backupContents(relativePath, bytes, options);
   }
 
+  backupPath ??= await backupBeforeWrite(relativePath, bytes, entry, options);
+  await removeBaseCopy();
+
   if (!dryRun) {
-    await fs.mkdir(path.dirname(file.absolutePath), { recursive: true });
-    await fs.writeFile(file.absolutePath, file.contents, {
-      encoding,
-      mode: file.mode,
-    });
+    await writer.removeFile(absolutePath);
+  }
+
+  return {
+    path: relativePath,
+    managed: true,
+    absolutePath,
+    action: 'deleted',
+    skipped: false,
+    gitignored: false,
+    ...(locallyModified !== undefined ? { locallyModified } : {}),
+    ...(backupPath ? { backupPath } : {}),
+    ...(options.diff ? { diff: buildContentsDiff(relativePath, bytes, null, encoding) } : {}),
+  };
+}
+
+/**
+ * Removes the link of a symlink entry. Whatever replaced the link is left alone, and the link
+ * target is never touched.
+ */
+async function pruneSymlink(
+  relativePath: string,
+  absolutePath: string,
+  entry: ManifestEntry,
+  options: SyncFileOptions,
+): Promise<FileSyncResult | null> {
+  const stats = await lstatIfPresent(absolutePath);
+
+  if (!stats?.isSymbolicLink()) {
+    return null;
+  }
+
+  const current = await fs.readlink(absolutePath);
+  const locallyModified =
+    entry.hash === undefined ? undefined : hashContents(current, options.encoding) !== entry.hash;
+
+  if (locallyModified && options.localModifications === 'skip-with-warning') {
+    return {
+      path: relativePath,
+      managed: false,
+      absolutePath,
+      action: 'unchanged',
+      skipped: false,
+      gitignored: false,
+      locallyModified,
+      warning: `Not deleting "${relativePath}" because it was repointed since cpconfig last wrote it.`,
+    };
   }
 
-  return { action: 'updated', managed: true };
+  if (!options.dryRun) {
+    await options.writer.removeFile(absolutePath);
+  }
+
+  return {
+    path: relativePath,
+    managed: true,
+    absolutePath,
+    action: 'deleted',
+    skipped: false,
+    gitignored: false,
+    ...(locallyModified !== undefined ? { locallyModified } : {}),
+    ...(options.diff ? { diff: buildDiff(relativePath, current, null) } : {}),
+  };
 }
 
 type GitignoreSyncOptions = {
@@ -351,26 +2735,72 @@ type GitignoreSyncOptions = {
   entries: string[];
   encoding: BufferEncoding;
   dryRun: boolean;
+  diff: boolean;
+  writer: FileWriter;
+  /**
+   * Paths kept on disk without being declared, e.g. orphans with prune disabled. Lines of the
+   * existing block that cover them are kept.
+   */
+  retainedPaths?: string[];
 };
 
-async function syncGitignore(options: GitignoreSyncOptions): Promise<GitignoreResult> {
-  const { gitignorePath, entries, encoding, dryRun } = options;
-  const uniqueEntries = uniqueNormalized(entries.map(normalizeGitignoreEntry)).filter(Boolean);
+async function removeGitignoreBlock(
+  options: Omit<GitignoreSyncOptions, 'entries'>,
+): Promise<GitignoreResult> {
+  const { rootDir, gitignorePath, encoding, dryRun, writer } = options;
+  const current = await readFileIfPresent(gitignorePath, encoding);
 
-  if (uniqueEntries.length === 0) {
-    return {
-      path: gitignorePath,
-      updated: false,
-      added: [],
-      removed: [],
-      skipped: true,
-    };
+  if (current === null || !splitLines(current).includes(MANAGED_COMMENT)) {
+    return skippedGitignoreResult(gitignorePath);
+  }
+
+  const { managedEntries, linesWithoutBlock } = extractManagedBlock(current);
+  const nextContent = buildGitignoreContent(linesWithoutBlock, []);
+  const label = normalizeRelativePath(path.relative(rootDir, gitignorePath));
+
+  // Ignore files that only ever held the managed block are removed entirely.
+  if (!dryRun) {
+    if (nextContent === '') {
+      await writer.removeFile(gitignorePath);
+    } else {
+      await writer.writeFile(gitignorePath, nextContent, { encoding });
+    }
   }
 
+  return {
+    path: gitignorePath,
+    updated: true,
+    added: [],
+    removed: managedEntries.map(normalizeGitignoreEntry).filter(Boolean),
+    skipped: false,
+    ...(options.diff
+      ? { diff: buildDiff(label, current, nextContent === '' ? null : nextContent) }
+      : {}),
+  };
+}
+
+async function syncGitignore(options: GitignoreSyncOptions): Promise<GitignoreResult> {
+  const { rootDir, gitignorePath, entries, encoding, dryRun } = options;
   const current = await readFileIfPresent(gitignorePath, encoding);
   const { managedEntries, linesWithoutBlock } = extractManagedBlock(current ?? '');
 
   const existingBlock = managedEntries.map(normalizeGitignoreEntry).filter(Boolean);
+  const retainedPaths = (options.retainedPaths ?? []).map(formatGitignoreEntry);
+  const retained = existingBlock.filter((entry) =>
+    retainedPaths.some(
+      (retainedPath) =>
+        retainedPath === entry || (entry.endsWith('/') && retainedPath.startsWith(entry)),
+    ),
+  );
+  const uniqueEntries = uniqueNormalized([
+    ...entries.map(normalizeGitignoreEntry),
+    ...retained,
+  ]).filter(Boolean);
+
+  // A block left over from earlier syncs still lists paths that are no longer managed.
+  if (uniqueEntries.length === 0) {
+    return removeGitignoreBlock(options);
+  }
 
   if (arraysEqual(existingBlock, uniqueEntries)) {
     return {
@@ -386,10 +2816,10 @@ async function syncGitignore(options: GitignoreSyncOptions): Promise<GitignoreRe
   const removed = existingBlock.filter((entry) => !uniqueEntries.includes(entry));
 
   const nextContent = buildGitignoreContent(linesWithoutBlock, uniqueEntries);
+  const label = normalizeRelativePath(path.relative(rootDir, gitignorePath));
 
   if (!dryRun) {
-    await fs.mkdir(path.dirname(gitignorePath), { recursive: true });
-    await fs.writeFile(gitignorePath, nextContent, { encoding });
+    await options.writer.writeFile(gitignorePath, nextContent, { encoding });
   }
 
   return {
@@ -398,6 +2828,17 @@ async function syncGitignore(options: GitignoreSyncOptions): Promise<GitignoreRe
     added,
     removed,
     skipped: false,
+    ...(options.diff ? { diff: buildDiff(label, current, nextContent) } : {}),
+  };
+}
+
+function skippedGitignoreResult(gitignorePath: string): GitignoreResult {
+  return {
+    path: gitignorePath,
+    updated: false,
+    added: [],
+    removed: [],
+    skipped: true,
   };
 }
 
@@ -452,6 +2893,30 @@ async function readFileIfPresent(
   }
 }
 
+async function readBytesIfPresent(filePath: string): Promise<Buffer | null> {
+  try {
+    return await fs.readFile(filePath);
+  } catch (error) {
+    if (error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+
+    throw error;
+  }
+}
+
+async function lstatIfPresent(filePath: string): Promise<Stats | null> {
+  try {
+    return await fs.lstat(filePath);
+  } catch (error) {
+    if (error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+
+    throw error;
+  }
+}
+
 type ManagedBlockExtraction = {
   managedEntries: string[];
   linesWithoutBlock: string[];
@@ -512,30 +2977,6 @@ function buildGitignoreContent(linesWithoutBlock: string[], managedEntries: stri
   return result.length > 0 ? `${result}\n` : '';
 }
 
-function splitLines(content: string): string[] {
-  if (!content) {
-    return [];
-  }
-
-  const lines = content.split(/\r?\n/);
-
-  if (lines.length > 0 && lines[lines.length - 1] === '') {
-    lines.pop();
-  }
-
-  return lines;
-}
-
-function trimTrailingEmptyLines(lines: string[]): string[] {
-  const trimmed = [...lines];
-
-  while (trimmed.length > 0 && trimmed[trimmed.length - 1].trim() === '') {
-    trimmed.pop();
-  }
-
-  return trimmed;
-}
-
 function arraysEqual(left: string[], right: string[]): boolean {
   if (left.length !== right.length) {
     return false;
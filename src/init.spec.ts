@@ -0,0 +1,115 @@
+import { execFileSync } from 'node:child_process';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, expect, test } from 'vitest';
+import { detectProject, initProject } from './init.js';
+
+describe('detectProject', () => {
+  test('picks the module flavour from package.json and installed loaders', async () => {
+    await withTempDir(async (packageDir) => {
+      await writeFile(path.join(packageDir, 'package.json'), '{ "type": "module" }\n');
+      await expect(detectProject(packageDir)).resolves.toMatchObject({
+        esm: true,
+        typeScript: false,
+        flavour: 'esm',
+      });
+
+      await writeFile(path.join(packageDir, 'package.json'), '{}\n');
+      await writeFile(path.join(packageDir, 'tsconfig.json'), '{}\n');
+      await expect(detectProject(packageDir)).resolves.toMatchObject({
+        esm: false,
+        typeScript: true,
+        loaders: [],
+        flavour: 'cjs',
+      });
+
+      await mkdir(path.join(packageDir, 'node_modules', 'tsx'), { recursive: true });
+      await writeFile(
+        path.join(packageDir, 'node_modules', 'tsx', 'package.json'),
+        '{ "name": "tsx", "main": "index.js" }\n',
+      );
+      await writeFile(path.join(packageDir, 'node_modules', 'tsx', 'index.js'), '');
+      await expect(detectProject(packageDir)).resolves.toMatchObject({
+        loaders: ['tsx'],
+        flavour: 'typescript',
+      });
+    });
+  });
+});
+
+describe('initProject', () => {
+  test('writes a config module and wires package.json without reformatting it', async () => {
+    await withTempDir(async (packageDir) => {
+      const packageJson =
+        '{\n\t"name": "demo",\n\t"scripts": {\n\t\t"postinstall": "husky"\n\t}\n}\n';
+      await writeFile(path.join(packageDir, 'package.json'), packageJson);
+      await mkdir(path.join(packageDir, 'config'));
+      await writeFile(path.join(packageDir, 'config', '.env'), 'A=1\n');
+
+      const result = await initProject({ packageDir, files: ['config/.env'] });
+
+      expect(result).toMatchObject({
+        configPath: 'cpconfig.config.cjs',
+        imported: ['config/.env'],
+        packageJson: { updated: true, changedKeys: ['config', 'scripts.postinstall'] },
+      });
+      await expect(readFile(path.join(packageDir, 'package.json'), 'utf8')).resolves.toBe(
+        '{\n\t"name": "demo",\n\t"scripts": {\n\t\t"postinstall": "husky && cpconfig"\n\t},\n' +
+          '\t"config": {\n\t\t"cpconfig": "./cpconfig.config.cjs"\n\t}\n}\n',
+      );
+      await expect(
+        readFile(path.join(packageDir, 'cpconfig.config.cjs'), 'utf8'),
+      ).resolves.toContain(
+        'module.exports = {\n  files: {\n    "config/.env": { contents: "A=1\\n" },\n',
+      );
+    });
+  });
+
+  test('imports dotted file names and warns about files git tracks', async () => {
+    await withTempDir(async (packageDir) => {
+      execFileSync('git', ['init', '-q', packageDir]);
+      await writeFile(path.join(packageDir, 'package.json'), '{}\n');
+      await writeFile(path.join(packageDir, '..env.backup'), 'A=1\n');
+      await writeFile(path.join(packageDir, '.env'), 'B=1\n');
+      execFileSync('git', ['add', '.env'], { cwd: packageDir });
+
+      const result = await initProject({ packageDir, files: ['..env.backup', '.env'] });
+
+      expect(result.imported).toEqual(['..env.backup', '.env']);
+      expect(result.warnings).toEqual([
+        '".env" is tracked by git but will be gitignored once cpconfig manages it; run "git rm --cached -- .env" to stop tracking it',
+      ]);
+      await expect(initProject({ packageDir, files: ['../outside'], force: true })).rejects.toThrow(
+        'Cannot import "../outside" because it is outside of',
+      );
+    });
+  });
+
+  test('refuses to replace an existing setup unless forced', async () => {
+    await withTempDir(async (packageDir) => {
+      await writeFile(
+        path.join(packageDir, 'package.json'),
+        '{ "type": "module", "config": { "cpconfig": "./old.mjs" } }\n',
+      );
+
+      await expect(initProject({ packageDir })).rejects.toThrowError(
+        'already sets config.cpconfig to "./old.mjs"',
+      );
+
+      const result = await initProject({ packageDir, force: true, dryRun: true });
+      expect(result.configPath).toBe('cpconfig.config.mjs');
+      expect(result.contents).toContain('export default {');
+      await expect(readFile(path.join(packageDir, 'cpconfig.config.mjs'))).rejects.toThrowError();
+    });
+  });
+});
+
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'cpconfig-init-'));
+  try {
+    return await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
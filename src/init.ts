@@ -0,0 +1,243 @@
+import { promises as fs } from 'fs';
+import { createRequire } from 'module';
+import * as path from 'path';
+import { listTrackedFiles, quoteShellArgument } from './git.js';
+import { mergeJsonText } from './json-merge.js';
+import { writeFileAtomic } from './transaction.js';
+
+// Scaffolds a starter config module and wires it into package.json for projects adopting cpconfig.
+
+const CONFIG_BASENAME = 'cpconfig.config';
+const POSTINSTALL_COMMAND = 'cpconfig';
+
+/**
+ * 'esm' and 'cjs' write plain JavaScript modules, 'typescript' writes a .ts module loaded through
+ * tsx or jiti.
+ */
+export type ConfigFlavour = 'esm' | 'cjs' | 'typescript';
+
+export type ProjectDetection = {
+  /**
+   * True when package.json declares "type": "module".
+   */
+  esm: boolean;
+  /**
+   * True when the project has a tsconfig.json.
+   */
+  typeScript: boolean;
+  /**
+   * TypeScript loaders resolvable from the package directory, in the order cpconfig tries them.
+   */
+  loaders: Array<'jiti' | 'tsx'>;
+  flavour: ConfigFlavour;
+};
+
+export type InitOptions = {
+  /**
+   * Directory containing the package.json to update. Defaults to process.cwd().
+   */
+  packageDir?: string;
+  /**
+   * Existing files, relative to the package directory, imported as starting entries.
+   */
+  files?: string[];
+  /**
+   * Overrides the detected module flavour.
+   */
+  flavour?: ConfigFlavour;
+  /**
+   * Replace an existing config module and config.cpconfig reference.
+   */
+  force?: boolean;
+  /**
+   * Compute the scaffold without writing anything.
+   */
+  dryRun?: boolean;
+};
+
+export type InitResult = {
+  detection: ProjectDetection;
+  /**
+   * Path of the config module relative to the package directory.
+   */
+  configPath: string;
+  /**
+   * Generated source of the config module.
+   */
+  contents: string;
+  /**
+   * Files imported as entries.
+   */
+  imported: string[];
+  /**
+   * Problems worth reporting, such as imported files that git tracks even though the first sync
+   * will gitignore them.
+   */
+  warnings: string[];
+  packageJson: {
+    updated: boolean;
+    /**
+     * Dot-separated package.json keys that were added or changed.
+     */
+    changedKeys: string[];
+  };
+};
+
+/**
+ * Detects the project's module system and TypeScript loaders to pick a config module flavour.
+ */
+export async function detectProject(packageDir: string): Promise<ProjectDetection> {
+  const pkg = JSON.parse(await fs.readFile(path.join(packageDir, 'package.json'), 'utf8')) as {
+    type?: unknown;
+  };
+  const esm = pkg.type === 'module';
+  const typeScript = await fs.access(path.join(packageDir, 'tsconfig.json')).then(
+    () => true,
+    () => false,
+  );
+  const requireFromPkg = createRequire(path.join(packageDir, 'package.json'));
+  const loaders = (['jiti', 'tsx'] as const).filter((name) => {
+    try {
+      requireFromPkg.resolve(name);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+
+  let flavour: ConfigFlavour = esm ? 'esm' : 'cjs';
+  if (typeScript && loaders.length > 0) {
+    flavour = 'typescript';
+  }
+
+  return { esm, typeScript, loaders, flavour };
+}
+
+/**
+ * Writes cpconfig.config.{mjs,cjs,ts} and points package.json config.cpconfig and
+ * scripts.postinstall at it. package.json is edited in place, so its formatting is kept.
+ */
+export async function initProject(options: InitOptions = {}): Promise<InitResult> {
+  const packageDir = path.resolve(options.packageDir ?? process.cwd());
+  const packageJsonPath = path.join(packageDir, 'package.json');
+  const detection = await detectProject(packageDir);
+  const flavour = options.flavour ?? detection.flavour;
+  const configPath = `${CONFIG_BASENAME}${flavourExtension(flavour)}`;
+  const absoluteConfigPath = path.join(packageDir, configPath);
+  const packageText = await fs.readFile(packageJsonPath, 'utf8');
+  const pkg = JSON.parse(packageText) as {
+    config?: { cpconfig?: unknown };
+    scripts?: { postinstall?: unknown };
+  };
+
+  if (!options.force) {
+    const existingReference = pkg.config?.cpconfig;
+    if (existingReference !== undefined) {
+      throw new Error(
+        `${packageJsonPath} already sets config.cpconfig to ${JSON.stringify(existingReference)}. Use force (--force) to replace it.`,
+      );
+    }
+
+    const exists = await fs.access(absoluteConfigPath).then(
+      () => true,
+      () => false,
+    );
+    if (exists) {
+      throw new Error(`"${configPath}" already exists. Use force (--force) to replace it.`);
+    }
+  }
+
+  const imported: Array<[string, string]> = [];
+  for (const file of options.files ?? []) {
+    const relativePath = path.relative(packageDir, path.resolve(packageDir, file));
+
+    if (
+      relativePath === '..' ||
+      relativePath.startsWith(`..${path.sep}`) ||
+      path.isAbsolute(relativePath)
+    ) {
+      throw new Error(`Cannot import "${file}" because it is outside of ${packageDir}`);
+    }
+
+    let contents: string;
+    try {
+      contents = await fs.readFile(path.join(packageDir, relativePath), 'utf8');
+    } catch (error) {
+      throw new Error(`Failed to read "${file}" to import it`, { cause: error });
+    }
+
+    imported.push([relativePath.split(path.sep).join('/'), contents]);
+  }
+
+  const tracked = await listTrackedFiles(
+    packageDir,
+    imported.map(([file]) => file),
+  );
+  const warnings = (tracked ?? []).map(
+    (file) =>
+      `"${file}" is tracked by git but will be gitignored once cpconfig manages it; run "git rm --cached -- ${quoteShellArgument(file)}" to stop tracking it`,
+  );
+
+  const contents = renderConfigModule(flavour, imported);
+  const patch: Record<string, unknown> = { config: { cpconfig: `./${configPath}` } };
+  const postinstall = pkg.scripts?.postinstall;
+
+  if (typeof postinstall !== 'string' || postinstall.trim() === '') {
+    patch.scripts = { postinstall: POSTINSTALL_COMMAND };
+  } else if (!/(^|[\s&;|])cpconfig(\s|$)/.test(postinstall)) {
+    patch.scripts = { postinstall: `${postinstall} && ${POSTINSTALL_COMMAND}` };
+  }
+
+  const merged = mergeJsonText(packageText, patch);
+  const updated = merged.content !== packageText;
+
+  if (!options.dryRun) {
+    await writeFileAtomic(absoluteConfigPath, contents, { encoding: 'utf8' });
+
+    if (updated) {
+      await writeFileAtomic(packageJsonPath, merged.content, { encoding: 'utf8' });
+    }
+  }
+
+  return {
+    detection,
+    configPath,
+    contents,
+    imported: imported.map(([file]) => file),
+    warnings,
+    packageJson: { updated, changedKeys: merged.changedPaths },
+  };
+}
+
+function flavourExtension(flavour: ConfigFlavour): string {
+  switch (flavour) {
+    case 'cjs':
+      return '.cjs';
+    case 'typescript':
+      return '.ts';
+    default:
+      return '.mjs';
+  }
+}
+
+function renderConfigModule(flavour: ConfigFlavour, files: Array<[string, string]>): string {
+  const entries =
+    files.length === 0
+      ? [
+          "    // 'config/.env.local': { contents: 'API_URL=http://localhost:3000\\n' },",
+          "    // 'config/settings.json': { data: { featureFlags: [] } },",
+        ]
+      : files.map(
+          ([file, contents]) =>
+            `    ${JSON.stringify(file)}: { contents: ${JSON.stringify(contents)} },`,
+        );
+  const body = ['{', '  files: {', ...entries, '  },', '}'].join('\n');
+  const header = [
+    '// Files managed by cpconfig. Run `npx cpconfig` after editing, or reinstall dependencies.',
+    '// Each entry is written to disk and listed in the managed .gitignore block.',
+  ].join('\n');
+
+  return flavour === 'cjs'
+    ? `${header}\nmodule.exports = ${body};\n`
+    : `${header}\nexport default ${body};\n`;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'vitest';
+import { mergeJsonText, parseJsonc } from './json-merge.js';
+
+describe('parseJsonc', () => {
+  test('accepts comments and trailing commas', () => {
+    expect(
+      parseJsonc('{\n  // comment\n  "a": [1, 2,],\n  /* block */ "b": { "c": "d", },\n}\n'),
+    ).toEqual({ a: [1, 2], b: { c: 'd' } });
+  });
+
+  test('reports the position of syntax errors', () => {
+    expect(() => parseJsonc('{\n  "a": nope\n}')).toThrow(/Unexpected token at line 2, column 8/);
+  });
+});
+
+describe('mergeJsonText', () => {
+  test('edits nested values in place, preserving comments and indentation', () => {
+    const tsconfig = [
+      '{',
+      '    // Shared options',
+      '    "compilerOptions": {',
+      '        "strict": false, // tightened later',
+      '        "target": "ES2022"',
+      '    },',
+      '    "include": ["src"]',
+      '}',
+      '',
+    ].join('\n');
+
+    const result = mergeJsonText(tsconfig, {
+      compilerOptions: { strict: true, noEmit: true },
+      exclude: ['build'],
+    });
+
+    expect(result.changedPaths).toEqual([
+      'compilerOptions.strict',
+      'compilerOptions.noEmit',
+      'exclude',
+    ]);
+    expect(result.content).toBe(
+      [
+        '{',
+        '    // Shared options',
+        '    "compilerOptions": {',
+        '        "strict": true, // tightened later',
+        '        "target": "ES2022",',
+        '        "noEmit": true',
+        '    },',
+        '    "include": ["src"],',
+        '    "exclude": [',
+        '        "build"',
+        '    ]',
+        '}',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('keeps trailing comma style and trailing comments', () => {
+    expect(mergeJsonText('{\n  "a": 1,\n}\n', { b: 2 }).content).toBe(
+      '{\n  "a": 1,\n  "b": 2,\n}\n',
+    );
+    expect(mergeJsonText('{\n  "a": 1 // note\n}\n', { b: 2 }).content).toBe(
+      '{\n  "a": 1, // note\n  "b": 2\n}\n',
+    );
+  });
+
+  test('fills empty objects and creates missing documents', () => {
+    expect(mergeJsonText('{}\n', { scripts: { lint: 'eslint .' } }).content).toBe(
+      '{\n  "scripts": {\n    "lint": "eslint ."\n  }\n}\n',
+    );
+    expect(mergeJsonText(null, { a: 1 })).toEqual({
+      content: '{\n  "a": 1\n}\n',
+      changedPaths: ['a'],
+    });
+  });
+
+  test('supports array merge modes', () => {
+    const source = '{\n  "list": ["a", "b"]\n}\n';
+
+    expect(mergeJsonText(source, { list: ['b', 'c'] }).content).toContain(
+      '"list": [\n    "b",\n    "c"\n  ]',
+    );
+    expect(mergeJsonText(source, { list: ['b', 'c'] }, { arrays: 'union' }).content).toContain(
+      '"list": [\n    "a",\n    "b",\n    "c"\n  ]',
+    );
+    expect(mergeJsonText(source, { list: ['c'] }, { arrays: 'append' }).content).toContain(
+      '"list": [\n    "a",\n    "b",\n    "c"\n  ]',
+    );
+    expect(mergeJsonText(source, { list: ['b'] }, { arrays: 'append' })).toEqual({
+      content: source,
+      changedPaths: [],
+    });
+  });
+
+  test('returns the original text when nothing changes', () => {
+    const source = '{ "a": { "b": true } }';
+    expect(mergeJsonText(source, { a: { b: true } })).toEqual({
+      content: source,
+      changedPaths: [],
+    });
+  });
+});
@@ -0,0 +1,418 @@
+// Deep-merges declared JSON into existing JSON/JSONC documents by editing the original text in
+// place, so comments, key order, indentation and untouched values survive.
+
+export type ArrayMergeMode = 'replace' | 'union' | 'append';
+
+export type JsonMergeResult = {
+  /**
+   * The merged document text. Identical to the input when nothing changed.
+   */
+  content: string;
+  /**
+   * Dot-separated key paths that were added or changed, in document order of the patch.
+   */
+  changedPaths: string[];
+};
+
+type JsonNode =
+  | { type: 'object'; start: number; end: number; properties: JsonProperty[] }
+  | { type: 'array'; start: number; end: number; items: JsonNode[] }
+  | { type: 'literal'; start: number; end: number; value: unknown };
+
+type JsonProperty = {
+  key: string;
+  keyStart: number;
+  value: JsonNode;
+};
+
+type TextEdit = { offset: number; length: number; text: string };
+
+type MergeContext = {
+  text: string;
+  indent: string;
+  eol: string;
+  arrays: ArrayMergeMode;
+  edits: TextEdit[];
+  changedPaths: string[];
+};
+
+/**
+ * Parses JSON that may contain comments and trailing commas.
+ */
+export function parseJsonc(text: string): unknown {
+  return toValue(parseJsoncNode(text));
+}
+
+/**
+ * Merges patch into the JSON(C) document held in existing. A null or blank document is created
+ * from the patch using two-space indentation.
+ */
+export function mergeJsonText(
+  existing: string | null,
+  patch: unknown,
+  options: { arrays?: ArrayMergeMode } = {},
+): JsonMergeResult {
+  const arrays = options.arrays ?? 'replace';
+
+  if (existing === null || existing.trim() === '') {
+    const value = mergeValues(undefined, patch, arrays);
+    return {
+      content: `${JSON.stringify(value, null, 2)}\n`,
+      changedPaths: isPlainObject(value) ? Object.keys(value) : ['(root)'],
+    };
+  }
+
+  const root = parseJsoncNode(existing);
+  const context: MergeContext = {
+    text: existing,
+    indent: detectIndent(existing),
+    eol: existing.includes('\r\n') ? '\r\n' : '\n',
+    arrays,
+    edits: [],
+    changedPaths: [],
+  };
+
+  collectEdits(context, root, patch, []);
+
+  let content = existing;
+  for (const edit of [...context.edits].sort((left, right) => right.offset - left.offset)) {
+    content = content.slice(0, edit.offset) + edit.text + content.slice(edit.offset + edit.length);
+  }
+
+  return { content, changedPaths: context.changedPaths };
+}
+
+function collectEdits(context: MergeContext, node: JsonNode, patch: unknown, keyPath: string[]) {
+  if (node.type === 'object' && isPlainObject(patch)) {
+    const inserts: Array<[string, unknown]> = [];
+
+    for (const [key, value] of Object.entries(patch)) {
+      if (value === undefined) {
+        continue;
+      }
+
+      // Later duplicates win in JSON.parse, so edit the last occurrence.
+      const property = node.properties.filter((candidate) => candidate.key === key).pop();
+
+      if (property) {
+        collectEdits(context, property.value, value, [...keyPath, key]);
+      } else {
+        inserts.push([key, mergeValues(undefined, value, context.arrays)]);
+        context.changedPaths.push([...keyPath, key].join('.'));
+      }
+    }
+
+    if (inserts.length > 0) {
+      context.edits.push(...buildInsertion(context, node, inserts));
+    }
+
+    return;
+  }
+
+  const current = toValue(node);
+  const merged = mergeValues(current, patch, context.arrays);
+
+  if (!deepEqual(current, merged)) {
+    context.edits.push({
+      offset: node.start,
+      length: node.end - node.start,
+      text: formatValue(merged, context, lineIndentAt(context.text, node.start)),
+    });
+    context.changedPaths.push(keyPath.length > 0 ? keyPath.join('.') : '(root)');
+  }
+}
+
+function buildInsertion(
+  context: MergeContext,
+  node: Extract<JsonNode, { type: 'object' }>,
+  inserts: Array<[string, unknown]>,
+): TextEdit[] {
+  const { text, eol } = context;
+  const multiline = text.slice(node.start, node.end).includes('\n');
+  const last = node.properties[node.properties.length - 1];
+
+  if (!multiline && last) {
+    const inline = inserts
+      .map(([key, value]) => `, ${JSON.stringify(key)}: ${JSON.stringify(value)}`)
+      .join('');
+    return [{ offset: last.value.end, length: 0, text: inline }];
+  }
+
+  const objectIndent = lineIndentAt(text, node.start);
+  const propertyIndent = last ? lineIndentAt(text, last.keyStart) : objectIndent + context.indent;
+  const rendered = inserts.map(
+    ([key, value]) =>
+      `${propertyIndent}${JSON.stringify(key)}: ${formatValue(value, context, propertyIndent)}`,
+  );
+
+  if (!last) {
+    const inner = text.slice(node.start + 1, node.end - 1);
+    const body = `${eol}${rendered.join(`,${eol}`)}`;
+    return inner.trim() === ''
+      ? [{ offset: node.start + 1, length: inner.length, text: `${body}${eol}${objectIndent}` }]
+      : [{ offset: node.start + 1, length: 0, text: `${body},` }];
+  }
+
+  const afterLast = skipTrivia(text, last.value.end);
+
+  if (text[afterLast] === ',') {
+    // Keep the document's trailing comma style.
+    return [
+      { offset: afterLast + 1, length: 0, text: rendered.map((line) => `${eol}${line},`).join('') },
+    ];
+  }
+
+  const separator = `,${eol}`;
+  const lineEnd = findLineEnd(text, last.value.end);
+  const restOfLine = text.slice(last.value.end, lineEnd).trim();
+
+  if (restOfLine.startsWith('//') || (restOfLine.startsWith('/*') && restOfLine.endsWith('*/'))) {
+    // Keep a trailing comment attached to the property it describes.
+    return [
+      { offset: last.value.end, length: 0, text: ',' },
+      { offset: lineEnd, length: 0, text: `${eol}${rendered.join(separator)}` },
+    ];
+  }
+
+  return [{ offset: last.value.end, length: 0, text: `${separator}${rendered.join(separator)}` }];
+}
+
+function mergeValues(current: unknown, patch: unknown, arrays: ArrayMergeMode): unknown {
+  if (isPlainObject(patch)) {
+    const result: Record<string, unknown> = isPlainObject(current) ? { ...current } : {};
+
+    for (const [key, value] of Object.entries(patch)) {
+      if (value !== undefined) {
+        result[key] = mergeValues(result[key], value, arrays);
+      }
+    }
+
+    return result;
+  }
+
+  if (Array.isArray(patch) && Array.isArray(current)) {
+    switch (arrays) {
+      case 'union':
+        return [...current, ...patch.filter((item) => !current.some((c) => deepEqual(c, item)))];
+      case 'append': {
+        // Appending is skipped when the array already ends with the patch, keeping syncs idempotent.
+        const tail = current.slice(current.length - patch.length);
+        return patch.length > 0 && current.length >= patch.length && deepEqual(tail, patch)
+          ? current
+          : [...current, ...patch];
+      }
+      default:
+        return patch;
+    }
+  }
+
+  return patch;
+}
+
+function formatValue(value: unknown, context: MergeContext, baseIndent: string): string {
+  return JSON.stringify(value, null, context.indent)
+    .split('\n')
+    .join(`${context.eol}${baseIndent}`);
+}
+
+function detectIndent(text: string): string {
+  const match = /\n([ \t]+)\S/.exec(text);
+  return match ? match[1] : '  ';
+}
+
+function lineIndentAt(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(lineStart))?.[0] ?? '';
+}
+
+function findLineEnd(text: string, offset: number): number {
+  const newline = text.indexOf('\n', offset);
+
+  if (newline === -1) {
+    return text.length;
+  }
+
+  return text[newline - 1] === '\r' ? newline - 1 : newline;
+}
+
+function skipTrivia(text: string, offset: number): number {
+  let position = offset;
+
+  while (position < text.length) {
+    const char = text[position];
+
+    if (/\s/.test(char)) {
+      position += 1;
+    } else if (text.startsWith('//', position)) {
+      const newline = text.indexOf('\n', position);
+      position = newline === -1 ? text.length : newline + 1;
+    } else if (text.startsWith('/*', position)) {
+      const close = text.indexOf('*/', position + 2);
+      position = close === -1 ? text.length : close + 2;
+    } else {
+      break;
+    }
+  }
+
+  return position;
+}
+
+function parseJsoncNode(text: string): JsonNode {
+  let position = 0;
+
+  const fail = (message: string): never => {
+    const before = text.slice(0, position);
+    const line = before.split('\n').length;
+    const column = position - before.lastIndexOf('\n');
+    throw new SyntaxError(`${message} at line ${line}, column ${column}`);
+  };
+
+  const parseString = (): string => {
+    const start = position;
+    let cursor = start + 1;
+
+    while (cursor < text.length && text[cursor] !== '"') {
+      cursor += text[cursor] === '\\' ? 2 : 1;
+    }
+
+    if (cursor >= text.length) {
+      fail('Unterminated string');
+    }
+
+    position = cursor + 1;
+    return JSON.parse(text.slice(start, position)) as string;
+  };
+
+  const consumeSeparator = (closing: string) => {
+    position = skipTrivia(text, position);
+
+    if (text[position] === ',') {
+      position += 1;
+    } else if (text[position] !== closing) {
+      fail(`Expected "," or "${closing}"`);
+    }
+  };
+
+  const parseValue = (): JsonNode => {
+    position = skipTrivia(text, position);
+    const start = position;
+
+    if (text[position] === '{') {
+      const properties: JsonProperty[] = [];
+      position += 1;
+
+      while (true) {
+        position = skipTrivia(text, position);
+
+        if (text[position] === '}') {
+          position += 1;
+          return { type: 'object', start, end: position, properties };
+        }
+
+        if (text[position] !== '"') {
+          fail('Expected a property name');
+        }
+
+        const keyStart = position;
+        const key = parseString();
+        position = skipTrivia(text, position);
+
+        if (text[position] !== ':') {
+          fail('Expected ":"');
+        }
+
+        position += 1;
+        properties.push({ key, keyStart, value: parseValue() });
+        consumeSeparator('}');
+      }
+    }
+
+    if (text[position] === '[') {
+      const items: JsonNode[] = [];
+      position += 1;
+
+      while (true) {
+        position = skipTrivia(text, position);
+
+        if (text[position] === ']') {
+          position += 1;
+          return { type: 'array', start, end: position, items };
+        }
+
+        items.push(parseValue());
+        consumeSeparator(']');
+      }
+    }
+
+    if (text[position] === '"') {
+      const value = parseString();
+      return { type: 'literal', start, end: position, value };
+    }
+
+    const literal = /^(?:true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(
+      text.slice(start),
+    );
+
+    if (!literal) {
+      return fail('Unexpected token');
+    }
+
+    position += literal[0].length;
+    return { type: 'literal', start, end: position, value: JSON.parse(literal[0]) };
+  };
+
+  const root = parseValue();
+  position = skipTrivia(text, position);
+
+  if (position < text.length) {
+    fail('Unexpected content after the JSON value');
+  }
+
+  return root;
+}
+
+function toValue(node: JsonNode): unknown {
+  switch (node.type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const property of node.properties) {
+        result[property.key] = toValue(property.value);
+      }
+      return result;
+    }
+    case 'array':
+      return node.items.map(toValue);
+    default:
+      return node.value;
+  }
+}
+
+function deepEqual(left: unknown, right: unknown): boolean {
+  if (left === right) {
+    return true;
+  }
+
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return (
+      left.length === right.length && left.every((item, index) => deepEqual(item, right[index]))
+    );
+  }
+
+  if (isPlainObject(left) && isPlainObject(right)) {
+    const leftKeys = Object.keys(left);
+    return (
+      leftKeys.length === Object.keys(right).length &&
+      leftKeys.every((key) => key in right && deepEqual(left[key], right[key]))
+    );
+  }
+
+  return false;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(
+    value &&
+    typeof value === 'object' &&
+    Object.prototype.toString.call(value) === '[object Object]',
+  );
+}
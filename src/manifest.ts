@@ -0,0 +1,197 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { BlockMarkers } from './blocks.js';
+import type { FileWriter } from './transaction.js';
+
+// Directory used for cpconfig's own bookkeeping when no explicit manifest path is configured.
+export const STATE_DIRECTORY = '.cpconfig';
+
+const MANIFEST_FILENAME = 'state.json';
+const BASE_DIRECTORY = 'base';
+const MANIFEST_VERSION = 1;
+
+export type ManifestEntry = {
+  /**
+   * Sentinel that was configured when the file was last written, if any.
+   */
+  sentinel?: string;
+  /**
+   * Markers of the region cpconfig owns when the file was managed with strategy 'block'.
+   */
+  block?: BlockMarkers;
+  /**
+   * Set for json-merge entries, whose files are never deleted when the entry goes away, for merge
+   * entries, which keep a base copy of the last generated contents, and for symlink entries, whose
+   * links are removed without touching what they point at.
+   */
+  strategy?: 'json-merge' | 'merge' | 'symlink';
+  /**
+   * SHA-256 of the contents cpconfig last wrote, used to detect local edits to whole-file entries.
+   */
+  hash?: string;
+};
+
+export type Manifest = {
+  version: number;
+  files: Record<string, ManifestEntry>;
+  /**
+   * Ignore files that received a managed block, relative to the root. Targets that are no longer
+   * configured have their block removed on the next sync.
+   */
+  ignoreFiles?: string[];
+};
+
+export function resolveManifestPath(rootDir: string, customPath?: string | false): string | null {
+  if (customPath === false) {
+    return null;
+  }
+
+  if (!customPath) {
+    return path.join(rootDir, STATE_DIRECTORY, MANIFEST_FILENAME);
+  }
+
+  return path.resolve(rootDir, customPath);
+}
+
+/**
+ * Location of the last generated contents of a merge entry, used as the base of three-way merges.
+ */
+export function resolveBasePath(rootDir: string, relativePath: string): string {
+  return path.join(rootDir, STATE_DIRECTORY, BASE_DIRECTORY, relativePath);
+}
+
+export function hashContents(contents: string | Buffer, encoding: BufferEncoding): string {
+  const hash = createHash('sha256');
+  return (
+    typeof contents === 'string' ? hash.update(contents, encoding) : hash.update(contents)
+  ).digest('hex');
+}
+
+export function createManifest(): Manifest {
+  return { version: MANIFEST_VERSION, files: {} };
+}
+
+/**
+ * Reads the manifest describing the files cpconfig wrote during the previous sync.
+ * Returns null when no manifest exists yet.
+ */
+export async function readManifest(
+  manifestPath: string,
+  encoding: BufferEncoding,
+): Promise<Manifest | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(manifestPath, { encoding });
+  } catch (error) {
+    if (error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse cpconfig manifest at ${manifestPath}: ${(error as Error).message}`,
+    );
+  }
+
+  if (
+    !parsed ||
+    typeof parsed !== 'object' ||
+    !('files' in parsed) ||
+    !parsed.files ||
+    typeof parsed.files !== 'object'
+  ) {
+    throw new Error(`Invalid cpconfig manifest at ${manifestPath}. Expected a files object.`);
+  }
+
+  const files: Record<string, ManifestEntry> = {};
+  for (const [filePath, entry] of Object.entries(parsed.files as Record<string, unknown>)) {
+    files[filePath] = entry && typeof entry === 'object' ? (entry as ManifestEntry) : {};
+  }
+
+  const ignoreFiles =
+    'ignoreFiles' in parsed && Array.isArray(parsed.ignoreFiles)
+      ? parsed.ignoreFiles.filter((target): target is string => typeof target === 'string')
+      : [];
+
+  return {
+    version: 'version' in parsed && typeof parsed.version === 'number' ? parsed.version : 1,
+    files,
+    ...(ignoreFiles.length > 0 ? { ignoreFiles } : {}),
+  };
+}
+
+/**
+ * Persists the manifest when its serialised form differs from what is on disk.
+ * The default state directory receives its own .gitignore so it never needs a root entry.
+ */
+export async function writeManifest(
+  manifestPath: string,
+  manifest: Manifest,
+  options: { rootDir: string; encoding: BufferEncoding; writer: FileWriter },
+): Promise<boolean> {
+  const { rootDir, encoding, writer } = options;
+  const serialised = serializeManifest(manifest);
+
+  let current: string | null = null;
+  try {
+    current = await fs.readFile(manifestPath, { encoding });
+  } catch (error) {
+    if (!(error instanceof Error) || (error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  if (current === serialised) {
+    return false;
+  }
+
+  if (current === null && Object.keys(manifest.files).length === 0) {
+    return false;
+  }
+
+  if (path.dirname(manifestPath) === path.join(rootDir, STATE_DIRECTORY)) {
+    await ensureStateDirectory(rootDir, { encoding, writer });
+  }
+
+  await writer.writeFile(manifestPath, serialised, { encoding });
+  return true;
+}
+
+/**
+ * Gives the default state directory a .gitignore that ignores everything inside it.
+ */
+export async function ensureStateDirectory(
+  rootDir: string,
+  options: { encoding: BufferEncoding; writer: FileWriter },
+): Promise<void> {
+  const stateIgnorePath = path.join(rootDir, STATE_DIRECTORY, '.gitignore');
+  const present = await fs.access(stateIgnorePath).then(
+    () => true,
+    () => false,
+  );
+
+  if (!present) {
+    await options.writer.writeFile(stateIgnorePath, '*\n', { encoding: options.encoding });
+  }
+}
+
+function serializeManifest(manifest: Manifest): string {
+  const files: Record<string, ManifestEntry> = {};
+
+  for (const key of Object.keys(manifest.files).sort()) {
+    files[key] = manifest.files[key];
+  }
+
+  const ignoreFiles = manifest.ignoreFiles?.length
+    ? { ignoreFiles: [...new Set(manifest.ignoreFiles)].sort() }
+    : {};
+
+  return `${JSON.stringify({ version: manifest.version, files, ...ignoreFiles }, null, 2)}\n`;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'vitest';
+import { hasConflictMarkers, MAX_MERGE_LINES, mergeThreeWay } from './merge.js';
+
+describe('mergeThreeWay', () => {
+  test('combines edits made to different regions', () => {
+    const base = 'a\nb\nc\nd\ne\n';
+    const local = 'a\nB (local)\nc\nd\ne\n';
+    const generated = 'a\nb\nc\nd\nE (generated)\nf\n';
+
+    expect(mergeThreeWay(base, local, generated)).toEqual({
+      content: 'a\nB (local)\nc\nd\nE (generated)\nf\n',
+      conflicts: 0,
+    });
+  });
+
+  test('takes identical changes from both sides once', () => {
+    expect(mergeThreeWay('a\nb\n', 'a\nx\n', 'a\nx\n')).toEqual({
+      content: 'a\nx\n',
+      conflicts: 0,
+    });
+  });
+
+  test('wraps overlapping edits in conflict markers', () => {
+    const result = mergeThreeWay('a\nb\nc\n', 'a\nlocal\nc\n', 'a\ngenerated\nc\n');
+
+    expect(result?.conflicts).toBe(1);
+    expect(result?.content).toBe(
+      'a\n<<<<<<< local\nlocal\n=======\ngenerated\n>>>>>>> cpconfig\nc\n',
+    );
+    expect(hasConflictMarkers(result?.content ?? '')).toBe(true);
+  });
+
+  test('keeps markers on their own lines when a side lacks a final newline', () => {
+    const result = mergeThreeWay('a', 'b', 'c');
+
+    expect(result?.content).toBe('<<<<<<< local\nb\n=======\nc\n>>>>>>> cpconfig\n');
+  });
+
+  test('conflicts on competing insertions at the same position', () => {
+    expect(mergeThreeWay('a\n', 'a\nx\n', 'a\ny\n')?.conflicts).toBe(1);
+    expect(hasConflictMarkers('a\nb\n')).toBe(false);
+  });
+
+  test('refuses inputs longer than the line limit', () => {
+    const large = 'line\n'.repeat(MAX_MERGE_LINES + 1);
+
+    expect(mergeThreeWay('a\n', 'b\n', large)).toBeNull();
+    expect(mergeThreeWay('a\n', 'line\n'.repeat(MAX_MERGE_LINES), 'b\n')).not.toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+import { diffLines, splitLinesWithTerminators } from './diff.js';
+
+// Line-based three-way merge between the last generated contents (base), the copy on disk (local)
+// and the newly generated contents.
+
+export const CONFLICT_MARKERS = {
+  local: '<<<<<<< local',
+  separator: '=======',
+  generated: '>>>>>>> cpconfig',
+} as const;
+
+/**
+ * Inputs longer than this are not merged: diffing them would take too long for a sync.
+ */
+export const MAX_MERGE_LINES = 20_000;
+
+export type ThreeWayMergeResult = {
+  /**
+   * Merged text. Conflicting regions are wrapped in conflict markers.
+   */
+  content: string;
+  /**
+   * Number of regions that changed differently on both sides.
+   */
+  conflicts: number;
+};
+
+/**
+ * Returns null when one of the inputs has more than MAX_MERGE_LINES lines.
+ */
+export function mergeThreeWay(
+  base: string,
+  local: string,
+  generated: string,
+): ThreeWayMergeResult | null {
+  const baseLines = splitLinesWithTerminators(base);
+  const localLines = splitLinesWithTerminators(local);
+  const generatedLines = splitLinesWithTerminators(generated);
+
+  if (Math.max(baseLines.length, localLines.length, generatedLines.length) > MAX_MERGE_LINES) {
+    return null;
+  }
+  const localMatches = matchBaseLines(baseLines, localLines);
+  const generatedMatches = matchBaseLines(baseLines, generatedLines);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let baseIndex = 0;
+  let localIndex = 0;
+  let generatedIndex = 0;
+
+  while (
+    baseIndex < baseLines.length ||
+    localIndex < localLines.length ||
+    generatedIndex < generatedLines.length
+  ) {
+    if (
+      baseIndex < baseLines.length &&
+      localMatches[baseIndex] === localIndex &&
+      generatedMatches[baseIndex] === generatedIndex
+    ) {
+      output.push(baseLines[baseIndex]);
+      baseIndex += 1;
+      localIndex += 1;
+      generatedIndex += 1;
+      continue;
+    }
+
+    // The next base line kept by both sides closes the region that changed.
+    let anchor = baseIndex;
+    while (
+      anchor < baseLines.length &&
+      (localMatches[anchor] === -1 || generatedMatches[anchor] === -1)
+    ) {
+      anchor += 1;
+    }
+
+    const localEnd = anchor < baseLines.length ? localMatches[anchor] : localLines.length;
+    const generatedEnd =
+      anchor < baseLines.length ? generatedMatches[anchor] : generatedLines.length;
+
+    const baseChunk = baseLines.slice(baseIndex, anchor);
+    const localChunk = localLines.slice(localIndex, localEnd);
+    const generatedChunk = generatedLines.slice(generatedIndex, generatedEnd);
+
+    if (linesEqual(localChunk, baseChunk) || linesEqual(localChunk, generatedChunk)) {
+      output.push(...generatedChunk);
+    } else if (linesEqual(generatedChunk, baseChunk)) {
+      output.push(...localChunk);
+    } else {
+      conflicts += 1;
+      output.push(
+        `${CONFLICT_MARKERS.local}\n`,
+        ...terminate(localChunk),
+        `${CONFLICT_MARKERS.separator}\n`,
+        ...terminate(generatedChunk),
+        `${CONFLICT_MARKERS.generated}\n`,
+      );
+    }
+
+    baseIndex = anchor;
+    localIndex = localEnd;
+    generatedIndex = generatedEnd;
+  }
+
+  return { content: output.join(''), conflicts };
+}
+
+/**
+ * True when the text still contains conflict markers written by mergeThreeWay.
+ */
+export function hasConflictMarkers(text: string): boolean {
+  return splitLinesWithTerminators(text).some(
+    (line) => line.replace(/\r?\n$/, '') === CONFLICT_MARKERS.local,
+  );
+}
+
+/**
+ * Maps every base line to the index of the same line in other, or -1 when it was removed.
+ */
+function matchBaseLines(baseLines: readonly string[], otherLines: readonly string[]): number[] {
+  const matches = new Array<number>(baseLines.length).fill(-1);
+  let baseIndex = 0;
+  let otherIndex = 0;
+
+  for (const operation of diffLines(baseLines, otherLines)) {
+    if (operation.type === 'equal') {
+      matches[baseIndex] = otherIndex;
+      baseIndex += 1;
+      otherIndex += 1;
+    } else if (operation.type === 'delete') {
+      baseIndex += 1;
+    } else {
+      otherIndex += 1;
+    }
+  }
+
+  return matches;
+}
+
+// Conflict markers must start on their own line even when a side lacks a final newline.
+function terminate(lines: string[]): string[] {
+  const last = lines[lines.length - 1];
+  return last === undefined || last.endsWith('\n') ? lines : [...lines.slice(0, -1), `${last}\n`];
+}
+
+function linesEqual(left: readonly string[], right: readonly string[]): boolean {
+  return left.length === right.length && left.every((line, index) => line === right[index]);
+}
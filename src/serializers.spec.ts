@@ -0,0 +1,153 @@
+import { describe, expect, test } from 'vitest';
+import { inferDataFormat, serializeData } from './serializers.js';
+
+describe('inferDataFormat', () => {
+  test('maps file names to formats', () => {
+    expect(inferDataFormat('config/app.json')).toBe('json');
+    expect(inferDataFormat('.github/workflows/ci.yml')).toBe('yaml');
+    expect(inferDataFormat('pyproject.toml')).toBe('toml');
+    expect(inferDataFormat('.npmrc')).toBe('ini');
+    expect(inferDataFormat('.env')).toBe('dotenv');
+    expect(inferDataFormat('config/.env.local')).toBe('dotenv');
+    expect(inferDataFormat('README.md')).toBeNull();
+  });
+});
+
+describe('serializeData', () => {
+  test('writes JSON with sorted keys and a sentinel key', () => {
+    expect(
+      serializeData({ b: 1, a: { d: true, c: [2, 1] } }, 'json', { sentinel: 'cpconfig' }),
+    ).toBe(
+      '{\n  "//": "cpconfig",\n  "a": {\n    "c": [\n      2,\n      1\n    ],\n    "d": true\n  },\n  "b": 1\n}\n',
+    );
+  });
+
+  test('writes YAML with quoting where required', () => {
+    expect(
+      serializeData(
+        {
+          name: 'ci',
+          on: ['push', 'pull_request'],
+          jobs: { build: { steps: [{ run: 'yarn test' }, { uses: 'actions/checkout@v4' }] } },
+          version: '1.0',
+          empty: '',
+          flag: 'yes',
+        },
+        'yaml',
+        { sentinel: 'managed by cpconfig' },
+      ),
+    ).toBe(
+      [
+        '# managed by cpconfig',
+        'empty: ""',
+        'flag: "yes"',
+        'jobs:',
+        '  build:',
+        '    steps:',
+        '    - run: yarn test',
+        '    - uses: actions/checkout@v4',
+        'name: ci',
+        '"on":',
+        '- push',
+        '- pull_request',
+        'version: "1.0"',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('quotes YAML strings and keys that would read back as other types', () => {
+    const values = [
+      '.inf',
+      '-.inf',
+      '+.INF',
+      '.nan',
+      '.NaN',
+      '~',
+      'null',
+      'NULL',
+      '0x10',
+      '0o17',
+      '017',
+      '1e3',
+      '1:20',
+    ];
+
+    for (const value of values) {
+      const [line] = serializeData({ value }, 'yaml').split('\n');
+      expect(line).toBe(`value: ${JSON.stringify(value)}`);
+      expect(JSON.parse(line.slice('value: '.length))).toBe(value);
+
+      const [keyLine] = serializeData({ [value]: 1 }, 'yaml').split('\n');
+      expect(keyLine).toBe(`${JSON.stringify(value)}: 1`);
+    }
+
+    expect(serializeData({ 42: 'a', port: 8080 }, 'yaml')).toBe('"42": a\nport: 8080\n');
+  });
+
+  test('writes TOML tables and arrays of tables', () => {
+    expect(
+      serializeData(
+        {
+          title: 'demo',
+          tool: { black: { 'line-length': 100 } },
+          servers: [{ name: 'a' }, { name: 'b' }],
+          ports: [80, 443],
+        },
+        'toml',
+      ),
+    ).toBe(
+      [
+        'ports = [80, 443]',
+        'title = "demo"',
+        '',
+        '[tool.black]',
+        'line-length = 100',
+        '',
+        '[[servers]]',
+        'name = "a"',
+        '',
+        '[[servers]]',
+        'name = "b"',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('writes INI sections', () => {
+    expect(
+      serializeData(
+        {
+          root: true,
+          '*': { indent_style: 'space', indent_size: 2 },
+          registry: 'https://r.example',
+        },
+        'ini',
+        { sentinel: 'cpconfig' },
+      ),
+    ).toBe(
+      [
+        '# cpconfig',
+        'registry=https://r.example',
+        'root=true',
+        '',
+        '[*]',
+        'indent_size=2',
+        'indent_style=space',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('writes dotenv files with escaping', () => {
+    expect(serializeData({ TOKEN: 'abc', MESSAGE: 'hello world\n', PORT: 3000 }, 'dotenv')).toBe(
+      'MESSAGE="hello world\\n"\nPORT=3000\nTOKEN=abc\n',
+    );
+  });
+
+  test('rejects data the format cannot represent', () => {
+    expect(() => serializeData(['a'], 'dotenv')).toThrow(/requires data to be a plain object/);
+    expect(() => serializeData({ nested: { a: 1 } }, 'dotenv')).toThrow(/must be a scalar/);
+    expect(() => serializeData({ value: null }, 'toml')).toThrow(/cannot represent null/);
+  });
+});
@@ -0,0 +1,423 @@
+import * as path from 'path';
+
+// Built-in serialisers for structured ConfigEntry data. Output is deterministic: object keys are
+// sorted, array order is preserved and every document ends with a single trailing newline.
+
+export type DataFormat = 'json' | 'yaml' | 'toml' | 'ini' | 'dotenv';
+
+export const DATA_FORMATS: readonly DataFormat[] = ['json', 'yaml', 'toml', 'ini', 'dotenv'];
+
+// Reserved key used to embed a sentinel in JSON documents, which have no comment syntax.
+export const JSON_SENTINEL_KEY = '//';
+
+const EXTENSION_FORMATS: Record<string, DataFormat> = {
+  '.json': 'json',
+  '.yml': 'yaml',
+  '.yaml': 'yaml',
+  '.toml': 'toml',
+  '.ini': 'ini',
+  '.cfg': 'ini',
+  '.npmrc': 'ini',
+  '.editorconfig': 'ini',
+  '.env': 'dotenv',
+};
+
+type SerializeOptions = {
+  /**
+   * Sentinel injected as a comment (or the reserved JSON key) so cpconfig can recognise the file.
+   */
+  sentinel?: string;
+};
+
+/**
+ * Infers the serialisation format from a file name, e.g. `config.yml` or `.env.local`.
+ */
+export function inferDataFormat(filePath: string): DataFormat | null {
+  const basename = path.posix.basename(filePath.split(path.sep).join('/')).toLowerCase();
+
+  if (basename === '.env' || basename.startsWith('.env.')) {
+    return 'dotenv';
+  }
+
+  if (EXTENSION_FORMATS[basename]) {
+    return EXTENSION_FORMATS[basename];
+  }
+
+  return EXTENSION_FORMATS[path.posix.extname(basename)] ?? null;
+}
+
+export function serializeData(
+  data: unknown,
+  format: DataFormat,
+  options: SerializeOptions = {},
+): string {
+  switch (format) {
+    case 'json':
+      return serializeJson(data, options);
+    case 'yaml':
+      return withCommentSentinel(serializeYaml(data), '#', options);
+    case 'toml':
+      return withCommentSentinel(serializeToml(requireObject(data, format)), '#', options);
+    case 'ini':
+      return withCommentSentinel(serializeIni(requireObject(data, format)), '#', options);
+    case 'dotenv':
+      return withCommentSentinel(serializeDotenv(requireObject(data, format)), '#', options);
+    default:
+      throw new Error(`Unsupported data format "${String(format)}"`);
+  }
+}
+
+function serializeJson(data: unknown, { sentinel }: SerializeOptions): string {
+  let value = sortKeys(data);
+
+  if (sentinel !== undefined) {
+    if (!isPlainObject(value)) {
+      throw new Error('A JSON sentinel can only be injected into an object');
+    }
+
+    value = { [JSON_SENTINEL_KEY]: sentinel, ...value };
+  }
+
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+function withCommentSentinel(
+  body: string,
+  commentPrefix: string,
+  { sentinel }: SerializeOptions,
+): string {
+  const content = body.length > 0 ? `${body}\n` : '';
+  return sentinel === undefined ? content : `${commentPrefix} ${sentinel}\n${content}`;
+}
+
+function serializeYaml(data: unknown): string {
+  return yamlLines(sortKeys(data), 0).join('\n');
+}
+
+function yamlLines(value: unknown, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return [`${pad}[]`];
+    }
+
+    return value.flatMap((item) => {
+      if (isCollection(item) && !isEmptyCollection(item)) {
+        const [first, ...rest] = yamlLines(item, indent + 2);
+        return [`${pad}- ${first.trimStart()}`, ...rest];
+      }
+
+      return [`${pad}- ${yamlScalar(item)}`];
+    });
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+
+    if (entries.length === 0) {
+      return [`${pad}{}`];
+    }
+
+    return entries.flatMap(([key, item]) => {
+      const formattedKey = yamlKey(key);
+
+      if (isCollection(item) && !isEmptyCollection(item)) {
+        // Sequences are conventionally written at the same indentation as their parent key.
+        const childIndent = Array.isArray(item) ? indent : indent + 2;
+        return [`${pad}${formattedKey}:`, ...yamlLines(item, childIndent)];
+      }
+
+      return [`${pad}${formattedKey}: ${yamlScalar(item)}`];
+    });
+  }
+
+  return [`${pad}${yamlScalar(value)}`];
+}
+
+function yamlKey(key: string): string {
+  return /^[A-Za-z0-9_][A-Za-z0-9_./-]*$/.test(key) && !needsYamlQuotes(key)
+    ? key
+    : JSON.stringify(key);
+}
+
+function yamlScalar(value: unknown): string {
+  if (Array.isArray(value)) {
+    return '[]';
+  }
+
+  if (isPlainObject(value)) {
+    return '{}';
+  }
+
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) {
+      return '.nan';
+    }
+    if (!Number.isFinite(value)) {
+      return value > 0 ? '.inf' : '-.inf';
+    }
+    return String(value);
+  }
+
+  if (typeof value === 'boolean') {
+    return String(value);
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  const text = String(value);
+  return needsYamlQuotes(text) ? JSON.stringify(text) : text;
+}
+
+function needsYamlQuotes(text: string): boolean {
+  return (
+    text.length === 0 ||
+    text !== text.trim() ||
+    isYamlReserved(text) ||
+    // Anything that starts like a number, including hex, octal and sexagesimal literals.
+    /^[-+]?(\d|\.\d)/.test(text) ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(text) ||
+    /: |\s#|[\n\r\t]/.test(text) ||
+    text.endsWith(':')
+  );
+}
+
+// Booleans and nulls of YAML 1.1 and 1.2, and the special floats.
+function isYamlReserved(text: string): boolean {
+  return /^(true|false|yes|no|on|off|y|n|null|~|[-+]?\.inf|\.nan)$/i.test(text);
+}
+
+function serializeToml(data: Record<string, unknown>): string {
+  const lines: string[] = [];
+  writeTomlTable(sortKeys(data) as Record<string, unknown>, [], lines);
+
+  while (lines.length > 0 && lines[0] === '') {
+    lines.shift();
+  }
+
+  return lines.join('\n');
+}
+
+function writeTomlTable(
+  table: Record<string, unknown>,
+  keyPath: string[],
+  lines: string[],
+  arrayItem = false,
+) {
+  const scalars: Array<[string, unknown]> = [];
+  const tables: Array<[string, Record<string, unknown>]> = [];
+  const arrayTables: Array<[string, Record<string, unknown>[]]> = [];
+
+  for (const [key, value] of Object.entries(table)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    if (isPlainObject(value)) {
+      tables.push([key, value]);
+    } else if (Array.isArray(value) && value.length > 0 && value.every(isPlainObject)) {
+      arrayTables.push([key, value as Record<string, unknown>[]]);
+    } else {
+      scalars.push([key, value]);
+    }
+  }
+
+  const header = keyPath.map(tomlKey).join('.');
+
+  if (arrayItem) {
+    lines.push('', `[[${header}]]`);
+  } else if (
+    keyPath.length > 0 &&
+    (scalars.length > 0 || (tables.length === 0 && arrayTables.length === 0))
+  ) {
+    // Tables that only contain sub-tables are declared implicitly by their children.
+    lines.push('', `[${header}]`);
+  }
+
+  for (const [key, value] of scalars) {
+    lines.push(`${tomlKey(key)} = ${tomlValue(value, [...keyPath, key])}`);
+  }
+
+  for (const [key, value] of tables) {
+    writeTomlTable(value, [...keyPath, key], lines);
+  }
+
+  for (const [key, items] of arrayTables) {
+    for (const item of items) {
+      writeTomlTable(item, [...keyPath, key], lines, true);
+    }
+  }
+}
+
+function tomlKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+function tomlValue(value: unknown, keyPath: string[]): string {
+  if (value === null) {
+    throw new Error(`TOML cannot represent null values (at "${keyPath.join('.')}")`);
+  }
+
+  if (typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === 'number') {
+    if (Number.isNaN(value)) {
+      return 'nan';
+    }
+    if (!Number.isFinite(value)) {
+      return value > 0 ? 'inf' : '-inf';
+    }
+    return String(value);
+  }
+
+  if (typeof value === 'boolean') {
+    return String(value);
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item, index) => tomlValue(item, [...keyPath, String(index)])).join(', ')}]`;
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    if (entries.length === 0) {
+      return '{}';
+    }
+    return `{ ${entries
+      .map(([key, item]) => `${tomlKey(key)} = ${tomlValue(item, [...keyPath, key])}`)
+      .join(', ')} }`;
+  }
+
+  return JSON.stringify(String(value));
+}
+
+function serializeIni(data: Record<string, unknown>): string {
+  const lines: string[] = [];
+  writeIniSection(sortKeys(data) as Record<string, unknown>, [], lines);
+
+  while (lines.length > 0 && lines[0] === '') {
+    lines.shift();
+  }
+
+  return lines.join('\n');
+}
+
+function writeIniSection(section: Record<string, unknown>, keyPath: string[], lines: string[]) {
+  const values: string[] = [];
+  const children: Array<[string, Record<string, unknown>]> = [];
+
+  for (const [key, value] of Object.entries(section)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    if (isPlainObject(value)) {
+      children.push([key, value]);
+    } else if (Array.isArray(value)) {
+      for (const item of value) {
+        values.push(`${key}[]=${iniValue(item)}`);
+      }
+    } else {
+      values.push(`${key}=${iniValue(value)}`);
+    }
+  }
+
+  if (keyPath.length > 0 && (values.length > 0 || children.length === 0)) {
+    lines.push('', `[${keyPath.join('.')}]`);
+  }
+
+  lines.push(...values);
+
+  for (const [key, value] of children) {
+    writeIniSection(value, [...keyPath, key], lines);
+  }
+}
+
+function iniValue(value: unknown): string {
+  if (isCollection(value)) {
+    throw new Error('INI values must be scalars or arrays of scalars');
+  }
+
+  const text = value === null ? '' : String(value);
+  return /^\s|\s$|^["']|[;#\n\r]/.test(text) ? JSON.stringify(text) : text;
+}
+
+function serializeDotenv(data: Record<string, unknown>): string {
+  return Object.keys(data)
+    .sort()
+    .filter((key) => data[key] !== undefined)
+    .map((key) => {
+      if (!/^[A-Za-z_][A-Za-z0-9_.]*$/.test(key)) {
+        throw new Error(`Invalid dotenv variable name "${key}"`);
+      }
+
+      const value = data[key];
+      if (isCollection(value)) {
+        throw new Error(`Dotenv value for "${key}" must be a scalar`);
+      }
+
+      return `${key}=${dotenvValue(value === null ? '' : String(value))}`;
+    })
+    .join('\n');
+}
+
+function dotenvValue(text: string): string {
+  if (!/[\s#"'`\\$]/.test(text)) {
+    return text;
+  }
+
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\r/g, '\\r')}"`;
+}
+
+function requireObject(data: unknown, format: DataFormat): Record<string, unknown> {
+  if (!isPlainObject(data)) {
+    throw new Error(`The ${format} format requires data to be a plain object`);
+  }
+
+  return data;
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+
+  if (isPlainObject(value)) {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      sorted[key] = sortKeys(value[key]);
+    }
+    return sorted;
+  }
+
+  return value;
+}
+
+function isCollection(value: unknown): value is unknown[] | Record<string, unknown> {
+  return Array.isArray(value) || isPlainObject(value);
+}
+
+function isEmptyCollection(value: unknown[] | Record<string, unknown>): boolean {
+  return Array.isArray(value) ? value.length === 0 : Object.keys(value).length === 0;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(
+    value &&
+    typeof value === 'object' &&
+    Object.prototype.toString.call(value) === '[object Object]',
+  );
+}
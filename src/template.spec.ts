@@ -0,0 +1,32 @@
+import { describe, expect, test } from 'vitest';
+import { renderTemplate } from './template.js';
+
+describe('renderTemplate', () => {
+  test('fills placeholders from nested scope values', () => {
+    expect(
+      renderTemplate(
+        'FROM node:{{ node }}\nLABEL name={{pkg.name}} ports={{ ports }} \\{{ literal }}\n',
+        { node: 20, pkg: { name: 'app' }, ports: [80, 443] },
+        'Dockerfile.tpl',
+      ),
+    ).toBe('FROM node:20\nLABEL name=app ports=[80,443] {{ literal }}\n');
+  });
+
+  test('names the template and line of a missing variable', () => {
+    expect(() => renderTemplate('a\nb {{ pkg.version }}\n', { pkg: {} }, 'ci.yml.tpl')).toThrow(
+      'Missing variable "pkg.version" in template "ci.yml.tpl" at line 2',
+    );
+    expect(() => renderTemplate('{{ env.TOKEN }}', { env: {} }, 'x.tpl')).toThrow(
+      /at line 1\. Environment variables must be listed in templateEnv and set\./,
+    );
+  });
+
+  test('rejects malformed placeholders', () => {
+    expect(() => renderTemplate('\n\n{{ a b }}', {}, 'x.tpl')).toThrow(
+      'Invalid placeholder "{{ a b }}" in template "x.tpl" at line 3',
+    );
+    expect(() => renderTemplate('{{ a', { a: 1 }, 'x.tpl')).toThrow(
+      'Unclosed placeholder in template "x.tpl" at line 1',
+    );
+  });
+});
@@ -0,0 +1,98 @@
+// Dependency-free rendering for template entries. `{{ name }}` inserts a variable and
+// `{{ pkg.version }}` follows dotted paths into objects. A backslash before the braces, `\{{`,
+// writes them literally.
+
+const PLACEHOLDER_NAME = /^[A-Za-z_$][\w$-]*(?:\.[\w$-]+)*$/;
+
+/**
+ * Values a template can reference, keyed by top-level name.
+ */
+export type TemplateScope = Record<string, unknown>;
+
+/**
+ * Replaces every placeholder in source with its value from scope. Strings are inserted as-is,
+ * numbers and booleans as text, and other values as JSON. Throws when a placeholder is malformed or
+ * names a variable that is not defined, reporting templateName and the line.
+ */
+export function renderTemplate(source: string, scope: TemplateScope, templateName: string): string {
+  let output = '';
+  let index = 0;
+
+  while (index < source.length) {
+    const open = source.indexOf('{{', index);
+
+    if (open === -1) {
+      output += source.slice(index);
+      break;
+    }
+
+    if (source[open - 1] === '\\') {
+      output += `${source.slice(index, open - 1)}{{`;
+      index = open + 2;
+      continue;
+    }
+
+    output += source.slice(index, open);
+
+    const close = source.indexOf('}}', open + 2);
+    const line = lineAt(source, open);
+
+    if (close === -1) {
+      throw new Error(`Unclosed placeholder in template "${templateName}" at line ${line}`);
+    }
+
+    const name = source.slice(open + 2, close).trim();
+
+    if (!PLACEHOLDER_NAME.test(name)) {
+      throw new Error(
+        `Invalid placeholder "{{${source.slice(open + 2, close)}}}" in template "${templateName}" at line ${line}`,
+      );
+    }
+
+    const value = lookup(scope, name);
+
+    if (value === undefined) {
+      const hint = name.startsWith('env.')
+        ? '. Environment variables must be listed in templateEnv and set.'
+        : '';
+      throw new Error(
+        `Missing variable "${name}" in template "${templateName}" at line ${line}${hint}`,
+      );
+    }
+
+    output += formatValue(value);
+    index = close + 2;
+  }
+
+  return output;
+}
+
+function lookup(scope: TemplateScope, name: string): unknown {
+  let current: unknown = scope;
+
+  for (const key of name.split('.')) {
+    if (!current || typeof current !== 'object' || !Object.hasOwn(current, key)) {
+      return undefined;
+    }
+
+    current = (current as Record<string, unknown>)[key];
+  }
+
+  return current;
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'bigint') {
+    return String(value);
+  }
+
+  return JSON.stringify(value);
+}
+
+function lineAt(source: string, offset: number): number {
+  return source.slice(0, offset).split('\n').length;
+}
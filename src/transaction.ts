@@ -0,0 +1,296 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+// Every file cpconfig touches goes through a FileWriter: writes land in a temporary sibling that is
+// renamed into place, and transactional writers remember what each path looked like beforehand.
+
+export type WriteFileOptions = {
+  encoding: BufferEncoding;
+  /**
+   * Permission bits for the file. Existing files keep their current mode when omitted.
+   */
+  mode?: number;
+};
+
+export type RollbackReport = {
+  /**
+   * Absolute paths that were put back the way they were before the sync started.
+   */
+  restored: string[];
+  /**
+   * Absolute paths that could not be restored, with the reason.
+   */
+  failed: Array<{ path: string; message: string }>;
+};
+
+export type FileWriter = {
+  writeFile(filePath: string, contents: string | Buffer, options: WriteFileOptions): Promise<void>;
+  /**
+   * Points linkPath at target, atomically replacing a file or link already there. type only
+   * matters on Windows.
+   */
+  symlink(target: string, linkPath: string, type: 'file' | 'dir'): Promise<void>;
+  removeFile(filePath: string): Promise<void>;
+  /**
+   * Removes an empty directory. Rollbacks recreate it with its previous mode.
+   */
+  removeDirectory(directoryPath: string): Promise<void>;
+  chmod(filePath: string, mode: number): Promise<void>;
+  /**
+   * Restores every path modified through this writer. Only transactional writers record anything.
+   */
+  rollback(): Promise<RollbackReport>;
+};
+
+type Snapshot =
+  | {
+      contents: Buffer;
+      mode: number;
+      /**
+       * Set when the snapshot was taken without following links, so a link found at the path
+       * during rollback was created by this writer and is removed before restoring.
+       */
+      unlink: boolean;
+    }
+  | { link: string }
+  | { directoryMode: number }
+  | null;
+
+/**
+ * Thrown by a transactional sync after a failure has been rolled back. The original error is
+ * available as the cause.
+ */
+export class SyncRollbackError extends Error {
+  /**
+   * True when every modified path was restored.
+   */
+  readonly rolledBack: boolean;
+  /**
+   * Paths, relative to the root directory, that were restored.
+   */
+  readonly restored: string[];
+  /**
+   * Paths, relative to the root directory, that could not be restored.
+   */
+  readonly unrestored: string[];
+
+  constructor(
+    message: string,
+    details: { restored: string[]; unrestored: string[]; cause: unknown },
+  ) {
+    super(message, { cause: details.cause });
+    this.name = 'SyncRollbackError';
+    this.rolledBack = details.unrestored.length === 0;
+    this.restored = details.restored;
+    this.unrestored = details.unrestored;
+  }
+}
+
+export function createFileWriter(options: { transactional: boolean }): FileWriter {
+  const snapshots = new Map<string, Snapshot>();
+  const createdDirectories: Array<{ top: string; leaf: string }> = [];
+
+  const ensureDirectory = async (directory: string) => {
+    const created = await fs.mkdir(directory, { recursive: true });
+
+    if (options.transactional && created) {
+      createdDirectories.push({ top: created, leaf: directory });
+    }
+  };
+
+  // Writes and chmod go through symlinks, so they snapshot what a link points at. Removing a path or
+  // turning it into a link affects the path itself, so those snapshot a link as a link.
+  const remember = async (filePath: string, followLinks: boolean) => {
+    if (!options.transactional || snapshots.has(filePath)) {
+      return;
+    }
+
+    try {
+      const stats = followLinks ? await fs.stat(filePath) : await fs.lstat(filePath);
+
+      if (stats.isSymbolicLink()) {
+        snapshots.set(filePath, { link: await fs.readlink(filePath) });
+      } else {
+        const contents = await fs.readFile(filePath);
+        snapshots.set(filePath, { contents, mode: stats.mode & 0o777, unlink: !followLinks });
+      }
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+
+      snapshots.set(filePath, null);
+    }
+  };
+
+  return {
+    async writeFile(filePath, contents, writeOptions) {
+      await remember(filePath, true);
+      await ensureDirectory(path.dirname(filePath));
+      await writeFileAtomic(filePath, contents, writeOptions);
+    },
+
+    async symlink(target, linkPath, type) {
+      await remember(linkPath, false);
+      await ensureDirectory(path.dirname(linkPath));
+
+      const tempPath = createTempPath(linkPath);
+      try {
+        await fs.symlink(target, tempPath, type);
+        await fs.rename(tempPath, linkPath);
+      } catch (error) {
+        await fs.rm(tempPath, { force: true });
+        throw error;
+      }
+    },
+
+    async removeFile(filePath) {
+      await remember(filePath, false);
+      await fs.rm(filePath, { force: true });
+    },
+
+    async removeDirectory(directoryPath) {
+      if (options.transactional && !snapshots.has(directoryPath)) {
+        const stats = await fs.stat(directoryPath);
+        snapshots.set(directoryPath, { directoryMode: stats.mode & 0o777 });
+      }
+
+      await fs.rmdir(directoryPath);
+    },
+
+    async chmod(filePath, mode) {
+      await remember(filePath, true);
+      await fs.chmod(filePath, mode);
+    },
+
+    async rollback() {
+      const report: RollbackReport = { restored: [], failed: [] };
+
+      for (const [filePath, snapshot] of [...snapshots].reverse()) {
+        try {
+          if (snapshot && 'directoryMode' in snapshot) {
+            await fs.mkdir(filePath, { recursive: true });
+            await fs.chmod(filePath, snapshot.directoryMode);
+          } else if (snapshot && 'link' in snapshot) {
+            await fs.rm(filePath, { force: true });
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.symlink(snapshot.link, filePath);
+          } else if (snapshot) {
+            if (snapshot.unlink) {
+              await fs.rm(filePath, { force: true });
+            }
+
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            await writeFileAtomic(filePath, snapshot.contents, {
+              encoding: 'utf8',
+              mode: snapshot.mode,
+            });
+          } else {
+            await fs.rm(filePath, { force: true });
+          }
+
+          report.restored.push(filePath);
+        } catch (error) {
+          report.failed.push({
+            path: filePath,
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      // Directories created along the way are removed again, but only while they are empty.
+      for (const { top, leaf } of createdDirectories.reverse()) {
+        await removeEmptyDirectories(leaf, top);
+      }
+
+      snapshots.clear();
+      createdDirectories.length = 0;
+      return report;
+    },
+  };
+}
+
+/**
+ * Writes to a temporary file in the same directory and renames it over the target, so readers
+ * never observe a partially written file.
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  contents: string | Buffer,
+  options: WriteFileOptions,
+): Promise<void> {
+  const target = await resolveSymlinkTarget(filePath);
+  const mode = options.mode ?? (await readPermissionBits(target));
+  const tempPath = createTempPath(target);
+
+  try {
+    // Creating the file with its mode keeps contents such as credentials from ever being readable
+    // by others, since the umask can only remove permission bits.
+    await fs.writeFile(tempPath, contents, {
+      encoding: options.encoding,
+      flag: 'wx',
+      ...(mode !== null ? { mode: mode & 0o777 } : {}),
+    });
+
+    // Renaming replaces the inode, so the previous permissions have to be carried over explicitly,
+    // including bits the umask removed.
+    if (mode !== null) {
+      await fs.chmod(tempPath, mode & 0o777);
+    }
+
+    await fs.rename(tempPath, target);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+function createTempPath(target: string): string {
+  return path.join(
+    path.dirname(target),
+    `.${path.basename(target)}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`,
+  );
+}
+
+async function resolveSymlinkTarget(filePath: string): Promise<string> {
+  try {
+    return await fs.realpath(filePath);
+  } catch (error) {
+    if (isNotFound(error)) {
+      return filePath;
+    }
+
+    throw error;
+  }
+}
+
+export async function readPermissionBits(filePath: string): Promise<number | null> {
+  try {
+    return (await fs.stat(filePath)).mode & 0o777;
+  } catch (error) {
+    if (isNotFound(error)) {
+      return null;
+    }
+
+    throw error;
+  }
+}
+
+async function removeEmptyDirectories(leaf: string, top: string): Promise<void> {
+  let directory = leaf;
+
+  while (directory.length >= top.length) {
+    try {
+      await fs.rmdir(directory);
+    } catch {
+      return;
+    }
+
+    directory = path.dirname(directory);
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
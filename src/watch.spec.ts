@@ -0,0 +1,100 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, expect, test } from 'vitest';
+import { collectLocalImports, createPathWatcher } from './watch.js';
+
+describe('collectLocalImports', () => {
+  test('follows relative imports and skips packages', async () => {
+    await withTempDir(async (rootDir) => {
+      const entry = path.join(rootDir, 'cpconfig.config.ts');
+      await mkdir(path.join(rootDir, 'lib', 'shared'), { recursive: true });
+      await writeFile(
+        entry,
+        "import { a } from './lib/a.js';\nimport type { B } from './lib/b';\nimport base from 'cpconfig-preset';\nconst shared = await import('./lib/shared');\nexport default { a, shared };\n",
+      );
+      await writeFile(
+        path.join(rootDir, 'lib', 'a.ts'),
+        "export * from '../cpconfig.config.ts';\nexport const a = require('./missing');\n",
+      );
+      await writeFile(path.join(rootDir, 'lib', 'b.ts'), 'export type B = string;\n');
+      await writeFile(path.join(rootDir, 'lib', 'shared', 'index.mjs'), 'export default 1;\n');
+
+      const modules = await collectLocalImports(entry);
+
+      expect(modules.sort()).toEqual(
+        [
+          entry,
+          path.join(rootDir, 'lib', 'a.ts'),
+          path.join(rootDir, 'lib', 'b.ts'),
+          path.join(rootDir, 'lib', 'shared', 'index.mjs'),
+        ].sort(),
+      );
+    });
+  });
+});
+
+describe('createPathWatcher', () => {
+  test('debounces changes to watched paths, including ones created later', async () => {
+    await withTempDir(async (rootDir) => {
+      const existing = path.join(rootDir, 'existing.txt');
+      const created = path.join(rootDir, 'nested', 'created.txt');
+      await writeFile(existing, 'one');
+
+      const watcher = createPathWatcher({ debounceMs: 50 });
+      watcher.watch([existing, created]);
+
+      try {
+        const changes = watcher.next(new AbortController().signal);
+        await writeFile(path.join(rootDir, 'unrelated.txt'), 'ignored');
+        await writeFile(existing, 'two');
+        await mkdir(path.dirname(created));
+
+        expect((await changes)?.sort()).toEqual([created, existing].sort());
+      } finally {
+        watcher.close();
+      }
+    });
+  });
+
+  test('keeps changes made while nobody is waiting', async () => {
+    await withTempDir(async (rootDir) => {
+      const filePath = path.join(rootDir, 'file.txt');
+      const watcher = createPathWatcher({ debounceMs: 20 });
+      watcher.watch([filePath]);
+
+      try {
+        await writeFile(filePath, 'one');
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        await expect(watcher.next(new AbortController().signal)).resolves.toEqual([filePath]);
+      } finally {
+        watcher.close();
+      }
+    });
+  });
+
+  test('resolves to null when aborted', async () => {
+    await withTempDir(async (rootDir) => {
+      const controller = new AbortController();
+      const watcher = createPathWatcher({ debounceMs: 50 });
+      watcher.watch([path.join(rootDir, 'file.txt')]);
+
+      const changes = watcher.next(controller.signal);
+      controller.abort();
+
+      await expect(changes).resolves.toBeNull();
+      watcher.close();
+    });
+  });
+});
+
+async function withTempDir<T>(callback: (rootDir: string) => Promise<T>): Promise<T> {
+  const rootDir = await mkdtemp(path.join(os.tmpdir(), 'cpconfig-watch-'));
+
+  try {
+    return await callback(rootDir);
+  } finally {
+    await rm(rootDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,228 @@
+import { promises as fs, statSync, watch, type FSWatcher } from 'fs';
+import * as path from 'path';
+
+// File system helpers for --watch: finding the local modules a config imports and collecting
+// debounced changes to a set of paths.
+
+const IMPORT_PATTERNS = [
+  /\bimport\s+(?:type\s+)?(?:[\w*{}\s,$]+\s+from\s+)?['"]([^'"]+)['"]/g,
+  /\bexport\s+(?:type\s+)?(?:\*(?:\s+as\s+[\w$]+)?|\{[^}]*\})\s+from\s+['"]([^'"]+)['"]/g,
+  /\b(?:import|require)\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+];
+
+const RESOLVABLE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.mjs', '.cjs', '.json'];
+
+/**
+ * Follows relative imports from entry and returns every local module reached, entry included.
+ * Bare specifiers are skipped, since dependencies do not change while developing a config.
+ */
+export async function collectLocalImports(entry: string): Promise<string[]> {
+  const visited = new Set<string>();
+  const pending = [path.resolve(entry)];
+
+  while (pending.length > 0) {
+    const current = pending.pop() as string;
+
+    if (visited.has(current) || current.split(path.sep).includes('node_modules')) {
+      continue;
+    }
+
+    visited.add(current);
+
+    let source: string;
+    try {
+      source = await fs.readFile(current, 'utf8');
+    } catch {
+      continue;
+    }
+
+    for (const specifier of findImportSpecifiers(source)) {
+      if (!specifier.startsWith('.')) {
+        continue;
+      }
+
+      const resolved = await resolveLocalModule(path.resolve(path.dirname(current), specifier));
+      if (resolved) {
+        pending.push(resolved);
+      }
+    }
+  }
+
+  return [...visited];
+}
+
+export type PathWatcher = {
+  /**
+   * Replaces the watched paths. Paths that do not exist yet are picked up when created.
+   */
+  watch(paths: readonly string[]): void;
+  /**
+   * Resolves with the watched paths that changed once no further change arrived for debounceMs, or
+   * with null when the signal aborts first. Changes made while nobody is waiting are kept for the
+   * next call, so nothing is missed between two calls.
+   */
+  next(signal: AbortSignal): Promise<string[] | null>;
+  close(): void;
+};
+
+export function createPathWatcher(options: { debounceMs: number }): PathWatcher {
+  let watched = new Set<string>();
+  const watchers = new Map<string, FSWatcher>();
+  const changed = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let settled = false;
+  let notify: (() => void) | undefined;
+
+  const take = () => {
+    const paths = [...changed];
+    changed.clear();
+    settled = false;
+    return paths;
+  };
+
+  const onEvent = (directory: string, filename: string | Buffer | null) => {
+    const target = filename ? path.join(directory, filename.toString()) : directory;
+    // A created or removed directory can stand for every watched path below it.
+    const affected = [...watched].filter(
+      (candidate) => candidate === target || candidate.startsWith(`${target}${path.sep}`),
+    );
+
+    if (affected.length === 0) {
+      return;
+    }
+
+    for (const candidate of affected) {
+      changed.add(candidate);
+    }
+
+    settled = false;
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      settled = true;
+      notify?.();
+    }, options.debounceMs);
+  };
+
+  return {
+    watch(paths) {
+      watched = new Set(paths.map((filePath) => path.resolve(filePath)));
+      const directories = new Set([...watched].map(nearestExistingDirectory));
+
+      for (const [directory, watcher] of watchers) {
+        if (!directories.has(directory)) {
+          watcher.close();
+          watchers.delete(directory);
+        }
+      }
+
+      for (const directory of directories) {
+        if (watchers.has(directory)) {
+          continue;
+        }
+
+        try {
+          const watcher = watch(directory, (_event, filename) => onEvent(directory, filename));
+          watcher.on('error', () => {
+            watcher.close();
+            watchers.delete(directory);
+          });
+          watchers.set(directory, watcher);
+        } catch {
+          // The directory vanished between the lookup and the watch call; nothing to watch there.
+        }
+      }
+    },
+
+    next(signal) {
+      return new Promise((resolve) => {
+        if (signal.aborted) {
+          resolve(null);
+          return;
+        }
+
+        if (settled) {
+          resolve(take());
+          return;
+        }
+
+        const onAbort = () => {
+          notify = undefined;
+          resolve(null);
+        };
+
+        signal.addEventListener('abort', onAbort, { once: true });
+        notify = () => {
+          signal.removeEventListener('abort', onAbort);
+          notify = undefined;
+          resolve(take());
+        };
+      });
+    },
+
+    close() {
+      clearTimeout(timer);
+      for (const watcher of watchers.values()) {
+        watcher.close();
+      }
+      watchers.clear();
+    },
+  };
+}
+
+function findImportSpecifiers(source: string): string[] {
+  const specifiers: string[] = [];
+
+  for (const pattern of IMPORT_PATTERNS) {
+    for (const match of source.matchAll(pattern)) {
+      specifiers.push(match[1]);
+    }
+  }
+
+  return specifiers;
+}
+
+async function resolveLocalModule(candidate: string): Promise<string | null> {
+  const candidates = [
+    candidate,
+    // TypeScript sources import siblings with the .js extension they compile to.
+    ...(/\.[cm]?js$/.test(candidate) ? [candidate.replace(/js$/, 'ts')] : []),
+    ...RESOLVABLE_EXTENSIONS.map((extension) => `${candidate}${extension}`),
+    ...RESOLVABLE_EXTENSIONS.map((extension) => path.join(candidate, `index${extension}`)),
+  ];
+
+  for (const filePath of candidates) {
+    const isFile = await fs.stat(filePath).then(
+      (stats) => stats.isFile(),
+      () => false,
+    );
+
+    if (isFile) {
+      return filePath;
+    }
+  }
+
+  return null;
+}
+
+function nearestExistingDirectory(filePath: string): string {
+  let directory = path.dirname(filePath);
+
+  // Synchronous checks let watch() start every watcher before it returns.
+  while (!isDirectorySync(directory)) {
+    const parent = path.dirname(directory);
+    if (parent === directory) {
+      break;
+    }
+    directory = parent;
+  }
+
+  return directory;
+}
+
+function isDirectorySync(directory: string): boolean {
+  try {
+    return statSync(directory).isDirectory();
+  } catch {
+    return false;
+  }
+}
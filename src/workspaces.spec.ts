@@ -0,0 +1,73 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, expect, test } from 'vitest';
+import {
+  findWorkspacePackages,
+  findWorkspaceRoot,
+  parsePnpmWorkspacePackages,
+} from './workspaces.js';
+
+describe('parsePnpmWorkspacePackages', () => {
+  test('reads block and flow sequences', () => {
+    expect(
+      parsePnpmWorkspacePackages(
+        "# workspace\npackages:\n  - 'packages/*'\n  - \"apps/**\" # apps\n\n  - '!**/test/**'\ncatalog:\n  react: ^18\n",
+      ),
+    ).toEqual(['packages/*', 'apps/**', '!**/test/**']);
+    expect(parsePnpmWorkspacePackages("packages: ['a/*', b]\n")).toEqual(['a/*', 'b']);
+    expect(parsePnpmWorkspacePackages('catalog: {}\n')).toEqual([]);
+  });
+});
+
+describe('findWorkspacePackages', () => {
+  test('lists packages matched by package.json workspaces', async () => {
+    await withTempDir(async (rootDir) => {
+      await writeFile(
+        path.join(rootDir, 'package.json'),
+        JSON.stringify({ workspaces: { packages: ['packages/*'] } }),
+      );
+      await mkdir(path.join(rootDir, 'packages', 'a'), { recursive: true });
+      await mkdir(path.join(rootDir, 'packages', 'b'), { recursive: true });
+      await mkdir(path.join(rootDir, 'packages', 'empty'), { recursive: true });
+      await writeFile(
+        path.join(rootDir, 'packages', 'a', 'package.json'),
+        JSON.stringify({ name: 'a', config: { cpconfig: './cpconfig.config.mjs' } }),
+      );
+      await writeFile(path.join(rootDir, 'packages', 'b', 'package.json'), '{}');
+
+      await expect(findWorkspacePackages(rootDir)).resolves.toEqual([
+        {
+          name: 'a',
+          dir: path.join(rootDir, 'packages', 'a'),
+          relativeDir: 'packages/a',
+          cpconfig: './cpconfig.config.mjs',
+        },
+        { name: null, dir: path.join(rootDir, 'packages', 'b'), relativeDir: 'packages/b' },
+      ]);
+      await expect(findWorkspaceRoot(path.join(rootDir, 'packages', 'a'))).resolves.toBe(rootDir);
+    });
+  });
+
+  test('prefers pnpm-workspace.yaml', async () => {
+    await withTempDir(async (rootDir) => {
+      await writeFile(path.join(rootDir, 'package.json'), '{}');
+      await writeFile(path.join(rootDir, 'pnpm-workspace.yaml'), 'packages:\n  - tools\n');
+      await mkdir(path.join(rootDir, 'tools'));
+      await writeFile(path.join(rootDir, 'tools', 'package.json'), '{ "name": "tools" }');
+
+      await expect(findWorkspacePackages(rootDir)).resolves.toMatchObject([
+        { name: 'tools', relativeDir: 'tools' },
+      ]);
+    });
+  });
+});
+
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'cpconfig-workspaces-'));
+  try {
+    return await fn(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
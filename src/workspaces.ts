@@ -0,0 +1,181 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { findMatchingDirectories } from './glob.js';
+
+// Discovers the packages of npm/yarn workspaces (package.json "workspaces") and pnpm workspaces
+// (pnpm-workspace.yaml "packages").
+
+const PNPM_WORKSPACE_FILE = 'pnpm-workspace.yaml';
+
+export type WorkspacePackage = {
+  /**
+   * The package.json name, or null when the package has none.
+   */
+  name: string | null;
+  /**
+   * Absolute path of the package directory.
+   */
+  dir: string;
+  /**
+   * Package directory relative to the workspace root, POSIX-style.
+   */
+  relativeDir: string;
+  /**
+   * The package's config.cpconfig module specifier, when it has one.
+   */
+  cpconfig?: string;
+};
+
+/**
+ * Reads the workspace patterns declared by the package.json or pnpm-workspace.yaml in rootDir.
+ * Returns null when rootDir is not a workspace root.
+ */
+export async function readWorkspacePatterns(rootDir: string): Promise<string[] | null> {
+  const pnpmWorkspace = await readFileIfPresent(path.join(rootDir, PNPM_WORKSPACE_FILE));
+
+  if (pnpmWorkspace !== null) {
+    return parsePnpmWorkspacePackages(pnpmWorkspace);
+  }
+
+  const pkg = await readPackageJson(rootDir);
+  const workspaces = Array.isArray(pkg?.workspaces)
+    ? pkg.workspaces
+    : (pkg?.workspaces as { packages?: unknown } | undefined)?.packages;
+
+  return Array.isArray(workspaces)
+    ? workspaces.filter((pattern): pattern is string => typeof pattern === 'string')
+    : null;
+}
+
+/**
+ * Walks up from startDir to the nearest directory that declares workspaces.
+ */
+export async function findWorkspaceRoot(startDir: string): Promise<string> {
+  let current = path.resolve(startDir);
+
+  while (true) {
+    if ((await readWorkspacePatterns(current)) !== null) {
+      return current;
+    }
+
+    const parent = path.dirname(current);
+    if (parent === current) {
+      throw new Error(
+        `Unable to locate a workspace root (package.json workspaces or ${PNPM_WORKSPACE_FILE}) starting from ${startDir}`,
+      );
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Lists the packages of the workspace rooted at rootDir, sorted by directory. Resolves to an empty
+ * list when rootDir does not declare workspaces.
+ */
+export async function findWorkspacePackages(rootDir: string): Promise<WorkspacePackage[]> {
+  const patterns = await readWorkspacePatterns(rootDir);
+
+  if (!patterns) {
+    return [];
+  }
+
+  const packages: WorkspacePackage[] = [];
+
+  for (const relativeDir of await findMatchingDirectories(rootDir, patterns)) {
+    const dir = path.join(rootDir, relativeDir);
+    const pkg = await readPackageJson(dir);
+
+    if (!pkg) {
+      continue;
+    }
+
+    const config = pkg.config as { cpconfig?: unknown } | undefined;
+    packages.push({
+      name: typeof pkg.name === 'string' ? pkg.name : null,
+      dir,
+      relativeDir,
+      ...(typeof config?.cpconfig === 'string' ? { cpconfig: config.cpconfig } : {}),
+    });
+  }
+
+  return packages;
+}
+
+/**
+ * Extracts the "packages" list from pnpm-workspace.yaml. Only the block and flow sequence styles
+ * pnpm documents are understood.
+ */
+export function parsePnpmWorkspacePackages(yaml: string): string[] {
+  const lines = yaml.split(/\r?\n/);
+  const start = lines.findIndex((line) => /^packages\s*:/.test(line));
+
+  if (start === -1) {
+    return [];
+  }
+
+  const inline = stripComment(lines[start].replace(/^packages\s*:/, '')).trim();
+
+  if (inline.startsWith('[')) {
+    return inline
+      .replace(/^\[|\]$/g, '')
+      .split(',')
+      .map(unquote)
+      .filter(Boolean);
+  }
+
+  const patterns: string[] = [];
+
+  for (const line of lines.slice(start + 1)) {
+    const content = stripComment(line);
+
+    if (content.trim() === '') {
+      continue;
+    }
+
+    const item = /^\s+-\s*(.+)$/.exec(content);
+
+    if (!item) {
+      break;
+    }
+
+    patterns.push(unquote(item[1]));
+  }
+
+  return patterns.filter(Boolean);
+}
+
+function stripComment(line: string): string {
+  return line.replace(/(^|\s)#.*$/, '');
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])(.*)\1$/, '$2');
+}
+
+async function readPackageJson(dir: string): Promise<Record<string, unknown> | null> {
+  const content = await readFileIfPresent(path.join(dir, 'package.json'));
+
+  if (content === null) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(content) as Record<string, unknown>;
+  } catch (error) {
+    throw new Error(`Failed to parse JSON from ${path.join(dir, 'package.json')}`, {
+      cause: error,
+    });
+  }
+}
+
+async function readFileIfPresent(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if (error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+
+    throw error;
+  }
+}